@@ -0,0 +1,71 @@
+import { PrismaClient } from '@prisma/client';
+import tebexHandler from '../src/handlers/tebex_handler';
+import PurchaseManager from '../src/handlers/purchase_handler';
+
+const prisma = new PrismaClient();
+
+// Delay between Tebex lookups, keeps the backfill well under the API rate limits
+const LOOKUP_DELAY = 500;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function main() {
+  const transactions = await prisma.transactions.findMany({
+    where: { paymentId: null },
+    select: { tbxId: true },
+  });
+
+  console.log(`Backfilling payment details of ${transactions.length} transaction(s)...`);
+
+  let updated = 0;
+  let failed = 0;
+
+  for (const { tbxId } of transactions) {
+    const result = await tebexHandler.verifyPurchase(tbxId);
+
+    if (result.success) {
+      await PurchaseManager.savePayment(tbxId, result.data);
+      updated++;
+    } else {
+      console.warn(`Unable to backfill ${tbxId}: ${result.error}`);
+      failed++;
+
+      if (result.type === 'auth') {
+        process.exitCode = 1;
+        break;
+      }
+    }
+
+    await sleep(LOOKUP_DELAY);
+  }
+
+  const mappings = await prisma.packageRoles.findMany({
+    where: { packageId: null },
+  });
+
+  for (const mapping of mappings) {
+    const knownPackage = await prisma.transactionPackages.findFirst({
+      where: { package: mapping.package, packageId: { not: null } },
+      select: { packageId: true },
+    });
+
+    if (knownPackage) {
+      await prisma.packageRoles.update({
+        where: { id: mapping.id },
+        data: { packageId: knownPackage.packageId },
+      });
+    }
+  }
+
+  console.log(`Backfill complete: ${updated} updated, ${failed} failed.`);
+}
+
+main()
+.catch(e => {
+  console.error(e);
+  process.exitCode = 1;
+})
+.finally(async () => {
+  await prisma.$disconnect();
+  process.exit(process.exitCode ?? 0);
+});
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "package_roles" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "package" TEXT NOT NULL,
+    "role_id" TEXT NOT NULL,
+    "channel_id" TEXT,
+    "added_by" TEXT NOT NULL,
+    "added_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "package_roles_package_role_id_key" ON "package_roles"("package", "role_id");
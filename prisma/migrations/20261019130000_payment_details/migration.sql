@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "payment_id" INTEGER;
+ALTER TABLE "transactions" ADD COLUMN "amount" TEXT;
+ALTER TABLE "transactions" ADD COLUMN "currency" TEXT;
+ALTER TABLE "transactions" ADD COLUMN "gateway" TEXT;
+ALTER TABLE "transactions" ADD COLUMN "creator_code" TEXT;
+ALTER TABLE "transactions" ADD COLUMN "email" TEXT;
+ALTER TABLE "transactions" ADD COLUMN "payment_date" DATETIME;
+
+-- AlterTable
+ALTER TABLE "transaction_packages" ADD COLUMN "package_id" INTEGER;
+ALTER TABLE "transaction_packages" ADD COLUMN "quantity" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "package_roles" ADD COLUMN "package_id" INTEGER;
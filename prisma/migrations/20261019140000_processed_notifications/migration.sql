@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "processed_notifications" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "message_id" TEXT NOT NULL,
+    "channel_id" TEXT NOT NULL,
+    "action" TEXT,
+    "tbxid" TEXT,
+    "processed_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "notification_checkpoints" (
+    "channel_id" TEXT NOT NULL PRIMARY KEY,
+    "message_id" TEXT NOT NULL,
+    "updated_at" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "processed_notifications_message_id_key" ON "processed_notifications"("message_id");
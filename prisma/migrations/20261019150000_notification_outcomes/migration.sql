@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "processed_notifications" ADD COLUMN "status" TEXT;
+ALTER TABLE "processed_notifications" ADD COLUMN "reason" TEXT;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "transaction_packages" ADD COLUMN "chargeback" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "transaction_packages" ADD COLUMN "refund" INTEGER NOT NULL DEFAULT 0;
+
+-- Carry the existing transaction-wide flags over to their packages
+UPDATE "transaction_packages" SET "chargeback" = 1 WHERE "tbxid" IN (SELECT "tbxid" FROM "transactions" WHERE "chargeback" = 1);
+UPDATE "transaction_packages" SET "refund" = 1 WHERE "tbxid" IN (SELECT "tbxid" FROM "transactions" WHERE "refund" = 1);
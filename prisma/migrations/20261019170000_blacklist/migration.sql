@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "blacklist" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "type" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "tbxid" TEXT,
+    "added_by" TEXT NOT NULL,
+    "added_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "blacklist_type_value_key" ON "blacklist"("type", "value");
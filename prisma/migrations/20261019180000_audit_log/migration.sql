@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "audit_log" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "action" TEXT NOT NULL,
+    "actor_id" TEXT NOT NULL,
+    "target_id" TEXT,
+    "tbxid" TEXT,
+    "reason" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "audit_log_target_id_idx" ON "audit_log"("target_id");
+
+-- CreateIndex
+CREATE INDEX "audit_log_tbxid_idx" ON "audit_log"("tbxid");
+
+-- CreateIndex
+CREATE INDEX "audit_log_created_at_idx" ON "audit_log"("created_at");
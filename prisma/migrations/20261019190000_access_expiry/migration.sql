@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "expires_at" DATETIME;
+ALTER TABLE "transactions" ADD COLUMN "reminder_sent_at" DATETIME;
+ALTER TABLE "transactions" ADD COLUMN "expiry_handled_at" DATETIME;
+
+-- CreateTable
+CREATE TABLE "package_durations" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "package" TEXT NOT NULL,
+    "package_id" INTEGER,
+    "days" INTEGER NOT NULL,
+    "added_by" TEXT NOT NULL,
+    "added_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "package_durations_package_key" ON "package_durations"("package");
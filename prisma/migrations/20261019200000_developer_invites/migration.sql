@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "developer_invites" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "customer_id" INTEGER NOT NULL,
+    "discord_id" TEXT NOT NULL,
+    "invited_by" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" DATETIME NOT NULL,
+    "responded_at" DATETIME
+);
+
+-- CreateIndex
+CREATE INDEX "developer_invites_customer_id_idx" ON "developer_invites"("customer_id");
+
+-- CreateIndex
+CREATE INDEX "developer_invites_discord_id_idx" ON "developer_invites"("discord_id");
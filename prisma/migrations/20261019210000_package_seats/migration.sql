@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "package_seats" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "package" TEXT NOT NULL,
+    "package_id" INTEGER,
+    "seats" INTEGER NOT NULL,
+    "per_quantity" INTEGER NOT NULL DEFAULT 0,
+    "added_by" TEXT NOT NULL,
+    "added_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "package_seats_package_key" ON "package_seats"("package");
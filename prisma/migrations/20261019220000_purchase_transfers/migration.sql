@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "purchase_transfers" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "tbxid" TEXT NOT NULL,
+    "from_discord_id" TEXT NOT NULL,
+    "to_discord_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "reviewed_by" TEXT,
+    "review_channel_id" TEXT,
+    "review_message_id" TEXT,
+    "reason" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" DATETIME,
+    "reverted_by" TEXT,
+    "reverted_at" DATETIME
+);
+
+-- CreateIndex
+CREATE INDEX "purchase_transfers_tbxid_idx" ON "purchase_transfers"("tbxid");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "claim_attempts" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "discord_id" TEXT NOT NULL,
+    "tbxid" TEXT NOT NULL,
+    "outcome" TEXT NOT NULL,
+    "lookup" INTEGER NOT NULL DEFAULT 0,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "claim_attempts_discord_id_idx" ON "claim_attempts"("discord_id");
+
+-- CreateIndex
+CREATE INDEX "claim_attempts_created_at_idx" ON "claim_attempts"("created_at");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "ticket_messages" ADD COLUMN "message_id" TEXT;
+ALTER TABLE "ticket_messages" ADD COLUMN "original_content" TEXT;
+ALTER TABLE "ticket_messages" ADD COLUMN "attachments" TEXT;
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "purchase_searches" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "staff_id" TEXT NOT NULL,
+    "discord_id" TEXT,
+    "tbxid" TEXT,
+    "purchaser_name" TEXT,
+    "package_name" TEXT,
+    "status" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "processed_webhooks" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "webhook_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "tbxid" TEXT,
+    "status" TEXT,
+    "processed_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "processed_webhooks_webhook_id_key" ON "processed_webhooks"("webhook_id");
@@ -9,6 +9,21 @@ async function main() {
     { name: 'payment_log_channel', dataType: 'channel_id', value: 'channel_id' },
     { name: 'notifying_discord_id', dataType: 'user_id', value: 'user_id' },
     { name: 'max_developers', dataType: 'number', value: '2' },
+    { name: 'staff_log_channel', dataType: 'channel_id', value: 'channel_id' },
+    { name: 'reconciliation_interval', dataType: 'number', value: '24' },
+    { name: 'role_drift_on_startup', dataType: 'number', value: '1' },
+    { name: 'expiry_reminder_days', dataType: 'number', value: '7' },
+    { name: 'developer_invite_expiry', dataType: 'number', value: '48' },
+    { name: 'transfer_requires_approval', dataType: 'number', value: '0' },
+    { name: 'transfer_review_channel', dataType: 'channel_id', value: 'channel_id' },
+    { name: 'transfer_cooldown', dataType: 'number', value: '168' },
+    { name: 'max_transfers', dataType: 'number', value: '3' },
+    { name: 'claim_rate_window', dataType: 'number', value: '10' },
+    { name: 'claim_user_limit', dataType: 'number', value: '5' },
+    { name: 'claim_global_limit', dataType: 'number', value: '30' },
+    { name: 'claim_failure_alert', dataType: 'number', value: '3' },
+    { name: 'claim_attempt_retention', dataType: 'number', value: '30' },
+    { name: 'ticket_transcript_channel', dataType: 'channel_id', value: 'channel_id' },
   ];
 
   for (const setting of defaultSettings) {
@@ -0,0 +1,51 @@
+import { EmbedBuilder, MessageFlags, PermissionsBitField, SlashCommandBuilder } from "discord.js";
+import SlashCommand from "../../classes/slash_command";
+import PaymentLogManager from "../../handlers/payment_log_handler";
+
+export default new SlashCommand({
+  name: 'backfill-notifications',
+  guildSpecific: true,
+  slashcommand: new SlashCommandBuilder()
+    .setName('backfill-notifications')
+    .setDescription('Process payment notifications posted while the bot was offline.')
+    .setDefaultMemberPermissions(PermissionsBitField.Flags.Administrator)
+    .addIntegerOption(o =>
+      o.setName('limit')
+        .setDescription('Maximum amount of messages to go through (default: 1000)')
+        .setMinValue(1)
+        .setMaxValue(10000)
+        .setRequired(false)
+    ),
+  callback: async (logger, client, interaction) => {
+    const limit = interaction.options.getInteger('limit') ?? undefined;
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    const result = await PaymentLogManager.catchUp(client, limit, true);
+
+    if (!result) {
+      interaction.editReply({
+        content: 'Unable to backfill notifications, a backfill is already running or `payment_log_channel` is not configured.',
+      });
+      return;
+    }
+
+    const embed = new EmbedBuilder()
+      .setColor(result.truncated ? 0xFEE75C : 0x57F287)
+      .setTitle('Notifications backfilled')
+      .addFields(
+        { name: 'Messages fetched', value: `${result.fetched}`, inline: true },
+        { name: 'Notifications processed', value: `${result.processed}`, inline: true },
+        { name: 'Skipped', value: `${result.skipped}`, inline: true },
+      )
+      .setTimestamp();
+
+    if (result.truncated) {
+      embed.setDescription(`The limit was reached before the last processed notification, run it again with a higher limit.`);
+    }
+
+    interaction.editReply({ embeds: [embed] });
+
+    logger.info(`Notifications backfilled by ${interaction.user.username} (${interaction.user.id}): ${result.processed}/${result.fetched}`);
+  }
+});
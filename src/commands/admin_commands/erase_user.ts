@@ -0,0 +1,65 @@
+import { EmbedBuilder, MessageFlags, PermissionsBitField, SlashCommandBuilder } from "discord.js";
+import SlashCommand from "../../classes/slash_command";
+import PrivacyManager from "../../handlers/privacy_handler";
+
+export default new SlashCommand({
+  name: 'erase-user',
+  guildSpecific: true,
+  slashcommand: new SlashCommandBuilder()
+    .setName('erase-user')
+    .setDescription('Erase the data of a user on their request, transactions are kept anonymized.')
+    .setDefaultMemberPermissions(PermissionsBitField.Flags.Administrator)
+    .addUserOption(o =>
+      o.setName('user')
+        .setDescription('User whose data is erased')
+        .setRequired(true)
+    )
+    .addStringOption(o =>
+      o.setName('confirm')
+        .setDescription('Type the user ID to confirm, this can not be undone')
+        .setRequired(true)
+    ),
+  callback: async (logger, client, interaction) => {
+    const { options, user } = interaction;
+
+    const target = options.getUser('user', true);
+    const confirmation = options.getString('confirm', true).trim();
+
+    if (confirmation !== target.id) {
+      interaction.reply({
+        content: `The confirmation doesn't match the user ID (\`${target.id}\`), nothing was erased.`,
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    const summary = await PrivacyManager.erase(target.id, user.id);
+
+    if (typeof summary === 'string') {
+      interaction.editReply({
+        content: summary,
+      });
+      return;
+    }
+
+    const embed = new EmbedBuilder()
+      .setTitle('User data erased')
+      .setColor(0x57F287)
+      .setDescription(`The data of ${target.username} was erased, their roles were removed.`)
+      .addFields(
+        { name: 'Transactions anonymized', value: `${summary.transactions}`, inline: true },
+        { name: 'Developer links removed', value: `${summary.developers}`, inline: true },
+        { name: 'Tickets anonymized', value: `${summary.tickets}`, inline: true },
+        { name: 'Ticket messages anonymized', value: `${summary.ticketMessages}`, inline: true },
+        { name: 'Transfers anonymized', value: `${summary.transfers}`, inline: true },
+        { name: 'Claim attempts deleted', value: `${summary.claimAttempts}`, inline: true },
+        { name: 'Audit entries anonymized', value: `${summary.auditEntries}`, inline: true },
+        { name: 'Blacklist entries kept', value: `${summary.blacklistKept}`, inline: true },
+      )
+      .setTimestamp();
+
+    interaction.editReply({ embeds: [embed] });
+  },
+});
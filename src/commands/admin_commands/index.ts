@@ -1,6 +1,18 @@
 import SlashCommand from "../../classes/slash_command";
+import backfill_notifications from "./backfill_notifications";
+import erase_user from "./erase_user";
+import package_durations from "./package_durations";
+import package_roles from "./package_roles";
+import package_seats from "./package_seats";
+import role_drift from "./role_drift";
 import settings_manager from "./settings_manager";
 
 export default [
   settings_manager,
+  package_roles,
+  package_durations,
+  package_seats,
+  backfill_notifications,
+  role_drift,
+  erase_user,
 ] as SlashCommand[];
@@ -0,0 +1,125 @@
+import { EmbedBuilder, MessageFlags, PermissionsBitField, SlashCommandBuilder } from "discord.js";
+import SlashCommand from "../../classes/slash_command";
+import { prisma } from "../../utils/prisma";
+import { GetKnownPackageId, RespondPackageAutocomplete } from "../../utils/packages";
+
+export default new SlashCommand({
+  name: 'package-durations',
+  guildSpecific: true,
+  slashcommand: new SlashCommandBuilder()
+    .setName('package-durations')
+    .setDescription('Manage how long each package grants access for.')
+    .setDefaultMemberPermissions(PermissionsBitField.Flags.Administrator)
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('set')
+        .setDescription('Limit the access granted by a package, i.e. yearly support plans or subscriptions.')
+        .addStringOption(o =>
+          o.setName('package')
+            .setDescription('Package name, as displayed on Tebex')
+            .setRequired(true)
+            .setAutocomplete(true)
+        )
+        .addIntegerOption(o =>
+          o.setName('days')
+            .setDescription('Access duration in days, multiplied by the purchased quantity')
+            .setRequired(true)
+            .setMinValue(1)
+            .setMaxValue(3650)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('remove')
+        .setDescription('Grant permanent access for a package again.')
+        .addStringOption(o =>
+          o.setName('package')
+            .setDescription('Package name, as displayed on Tebex')
+            .setRequired(true)
+            .setAutocomplete(true)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('list')
+        .setDescription('List the packages granting time-limited access.')
+    ),
+  callback: async (logger, client, interaction) => {
+    const { options, user } = interaction;
+
+    const subcommand = options.getSubcommand();
+
+    if (subcommand === 'set') {
+      const packageName = options.getString('package', true).trim();
+      const days = options.getInteger('days', true);
+
+      const packageId = await GetKnownPackageId(packageName);
+
+      await prisma.packageDurations.upsert({
+        where: {
+          package: packageName,
+        },
+        update: {
+          ...(packageId !== null ? { packageId } : {}),
+          days,
+          addedBy: user.id,
+        },
+        create: {
+          package: packageName,
+          packageId,
+          days,
+          addedBy: user.id,
+        },
+      });
+
+      interaction.reply({
+        content: `\`${packageName}\` now grants access for **${days}** day(s).\n-# Purchases paid before the duration was first set keep permanent access.`,
+        flags: MessageFlags.Ephemeral,
+      });
+
+      logger.info(`Access duration of '${packageName}' set to ${days} day(s) by ${user.username} (${user.id})`);
+    } else if (subcommand === 'remove') {
+      const packageName = options.getString('package', true).trim();
+
+      const { count } = await prisma.packageDurations.deleteMany({
+        where: {
+          package: packageName,
+        },
+      });
+
+      interaction.reply({
+        content: count > 0
+          ? `\`${packageName}\` now grants permanent access.\n-# Existing purchases keep their current expiry date.`
+          : `\`${packageName}\` already grants permanent access.`,
+        flags: MessageFlags.Ephemeral,
+      });
+
+      if (count > 0) logger.info(`Access duration of '${packageName}' removed by ${user.username} (${user.id})`);
+    } else if (subcommand === 'list') {
+      const durations = await prisma.packageDurations.findMany({
+        orderBy: {
+          package: 'asc',
+        },
+      });
+
+      const embed = new EmbedBuilder()
+        .setColor(0x5865F2)
+        .setTitle('Package durations')
+        .setDescription(
+          durations.length > 0
+            ? durations.map(({ package: packageName, days }) => `* **${packageName}**: ${days} day(s)`).join('\n').slice(0, 4096)
+            : 'Every package grants permanent access.'
+        )
+        .setTimestamp();
+
+      interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+    }
+  },
+  autocomplete: async (logger, client, interaction) => {
+    await RespondPackageAutocomplete(interaction, (search) => prisma.packageDurations.findMany({
+      where: { package: { contains: search } },
+      select: { package: true },
+      take: 25,
+    }));
+  },
+});
@@ -0,0 +1,194 @@
+import { ChannelType, EmbedBuilder, GuildChannel, MessageFlags, PermissionsBitField, SlashCommandBuilder } from "discord.js";
+import SlashCommand from "../../classes/slash_command";
+import { prisma } from "../../utils/prisma";
+import { GetKnownPackageId, RespondPackageAutocomplete } from "../../utils/packages";
+
+export default new SlashCommand({
+  name: 'package-roles',
+  guildSpecific: true,
+  slashcommand: new SlashCommandBuilder()
+    .setName('package-roles')
+    .setDescription('Manage the roles granted for each purchased package.')
+    .setDefaultMemberPermissions(PermissionsBitField.Flags.Administrator)
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('add')
+        .setDescription('Grant a role to customers who purchased a package.')
+        .addStringOption(o =>
+          o.setName('package')
+            .setDescription('Package name, as displayed on Tebex')
+            .setRequired(true)
+            .setAutocomplete(true)
+        )
+        .addRoleOption(o =>
+          o.setName('role')
+            .setDescription('Role granted for the package')
+            .setRequired(true)
+        )
+        .addChannelOption(o =>
+          o.setName('channel')
+            .setDescription('Support channel the role gets access to')
+            .addChannelTypes(ChannelType.GuildText, ChannelType.GuildForum, ChannelType.GuildCategory)
+            .setRequired(false)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('remove')
+        .setDescription('Stop granting a role for a package.')
+        .addStringOption(o =>
+          o.setName('package')
+            .setDescription('Package name, as displayed on Tebex')
+            .setRequired(true)
+            .setAutocomplete(true)
+        )
+        .addRoleOption(o =>
+          o.setName('role')
+            .setDescription('Role granted for the package')
+            .setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('list')
+        .setDescription('List the roles granted for each package.')
+    ),
+  callback: async (logger, client, interaction) => {
+    const { guild, options, user } = interaction;
+
+    if (!guild) {
+      interaction.reply({
+        content: "This command can only be used on a server.",
+        flags: MessageFlags.Ephemeral
+      });
+      return;
+    }
+
+    const subcommand = options.getSubcommand();
+
+    if (subcommand === 'add') {
+      const packageName = options.getString('package', true).trim();
+      const role = options.getRole('role', true);
+      const channel = options.getChannel('channel') as GuildChannel | null;
+
+      const existing = await prisma.packageRoles.findUnique({
+        where: {
+          package_roleId: {
+            package: packageName,
+            roleId: role.id,
+          },
+        },
+      });
+
+      if (existing) {
+        interaction.reply({
+          content: `<@&${role.id}> is already granted for \`${packageName}\`.`,
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+
+      if (channel) {
+        try {
+          await channel.permissionOverwrites.edit(role.id, {
+            ViewChannel: true,
+          }, { reason: `Support access for package: ${packageName}` });
+        } catch (err) {
+          interaction.reply({
+            content: `Unable to give <@&${role.id}> access to <#${channel.id}>, check the bot's permissions.\n> ${(err as Error).message}`,
+            flags: MessageFlags.Ephemeral,
+          });
+          return;
+        }
+      }
+
+      const packageId = await GetKnownPackageId(packageName);
+
+      await prisma.packageRoles.create({
+        data: {
+          package: packageName,
+          packageId,
+          roleId: role.id,
+          channelId: channel?.id ?? null,
+          addedBy: user.id,
+        },
+      });
+
+      interaction.reply({
+        content: `<@&${role.id}> will now be granted for \`${packageName}\`${channel ? ` with access to <#${channel.id}>` : ''}.`,
+        flags: MessageFlags.Ephemeral,
+      });
+
+      logger.info(`Role ${role.id} mapped to package '${packageName}' by ${user.username} (${user.id})`);
+    } else if (subcommand === 'remove') {
+      const packageName = options.getString('package', true).trim();
+      const role = options.getRole('role', true);
+
+      const mapping = await prisma.packageRoles.findUnique({
+        where: {
+          package_roleId: {
+            package: packageName,
+            roleId: role.id,
+          },
+        },
+      });
+
+      if (!mapping) {
+        interaction.reply({
+          content: `<@&${role.id}> is not granted for \`${packageName}\`.`,
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+
+      await prisma.packageRoles.delete({
+        where: {
+          id: mapping.id,
+        },
+      });
+
+      interaction.reply({
+        content: `<@&${role.id}> will no longer be granted for \`${packageName}\`.\n-# Members keep the role until their purchases are checked again, channel permissions were left untouched.`,
+        flags: MessageFlags.Ephemeral,
+      });
+
+      logger.info(`Role ${role.id} unmapped from package '${packageName}' by ${user.username} (${user.id})`);
+    } else if (subcommand === 'list') {
+      const mappings = await prisma.packageRoles.findMany({
+        orderBy: {
+          package: 'asc',
+        },
+      });
+
+      const packages = new Map<string, string[]>();
+      for (const { package: packageName, roleId, channelId } of mappings) {
+        const lines = packages.get(packageName) ?? [];
+        lines.push(`<@&${roleId}>${channelId ? ` - <#${channelId}>` : ''}`);
+        packages.set(packageName, lines);
+      }
+
+      const embed = new EmbedBuilder()
+        .setColor(0x5865F2)
+        .setTitle('Package roles')
+        .setDescription(
+          packages.size > 0
+            ? [...packages.entries()]
+                .map(([packageName, lines]) => `**${packageName}**\n${lines.map((line) => `* ${line}`).join('\n')}`)
+                .join('\n\n')
+                .slice(0, 4096)
+            : 'No package roles are configured, only the customer role is granted.'
+        )
+        .setTimestamp();
+
+      interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+    }
+  },
+  autocomplete: async (logger, client, interaction) => {
+    await RespondPackageAutocomplete(interaction, (search) => prisma.packageRoles.findMany({
+      where: { package: { contains: search } },
+      select: { package: true },
+      distinct: ['package'],
+      take: 25,
+    }));
+  },
+});
@@ -0,0 +1,138 @@
+import { EmbedBuilder, MessageFlags, PermissionsBitField, SlashCommandBuilder } from "discord.js";
+import SlashCommand from "../../classes/slash_command";
+import SettingsManager from "../../handlers/settings_handler";
+import { prisma } from "../../utils/prisma";
+import { GetKnownPackageId, RespondPackageAutocomplete } from "../../utils/packages";
+
+export default new SlashCommand({
+  name: 'package-seats',
+  guildSpecific: true,
+  slashcommand: new SlashCommandBuilder()
+    .setName('package-seats')
+    .setDescription('Manage how many developers each package allows.')
+    .setDefaultMemberPermissions(PermissionsBitField.Flags.Administrator)
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('set')
+        .setDescription('Set the developer seats granted by a package, summed across a customer\'s purchases.')
+        .addStringOption(o =>
+          o.setName('package')
+            .setDescription('Package name, as displayed on Tebex')
+            .setRequired(true)
+            .setAutocomplete(true)
+        )
+        .addIntegerOption(o =>
+          o.setName('seats')
+            .setDescription('Developer seats granted by the package')
+            .setRequired(true)
+            .setMinValue(0)
+            .setMaxValue(100)
+        )
+        .addBooleanOption(o =>
+          o.setName('perquantity')
+            .setDescription('Multiply the seats by the purchased quantity (default: false)')
+            .setRequired(false)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('remove')
+        .setDescription('Stop granting developer seats for a package.')
+        .addStringOption(o =>
+          o.setName('package')
+            .setDescription('Package name, as displayed on Tebex')
+            .setRequired(true)
+            .setAutocomplete(true)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('list')
+        .setDescription('List the packages granting developer seats.')
+    ),
+  callback: async (logger, client, interaction) => {
+    const { options, user } = interaction;
+
+    const subcommand = options.getSubcommand();
+
+    if (subcommand === 'set') {
+      const packageName = options.getString('package', true).trim();
+      const seats = options.getInteger('seats', true);
+      const perQuantity = options.getBoolean('perquantity') ? 1 : 0;
+
+      const packageId = await GetKnownPackageId(packageName);
+
+      await prisma.packageSeats.upsert({
+        where: {
+          package: packageName,
+        },
+        update: {
+          ...(packageId !== null ? { packageId } : {}),
+          seats,
+          perQuantity,
+          addedBy: user.id,
+        },
+        create: {
+          package: packageName,
+          packageId,
+          seats,
+          perQuantity,
+          addedBy: user.id,
+        },
+      });
+
+      interaction.reply({
+        content: `\`${packageName}\` now grants **${seats}** developer seat(s)${perQuantity ? ' per purchased unit' : ''}.\n` +
+          `-# Customers always get at least \`max_developers\` (${SettingsManager.get('max_developers')}) seat(s), developers over a lowered allowance are removed on their next purchase check.`,
+        flags: MessageFlags.Ephemeral,
+      });
+
+      logger.info(`Developer seats of '${packageName}' set to ${seats}${perQuantity ? ' per unit' : ''} by ${user.username} (${user.id})`);
+    } else if (subcommand === 'remove') {
+      const packageName = options.getString('package', true).trim();
+
+      const { count } = await prisma.packageSeats.deleteMany({
+        where: {
+          package: packageName,
+        },
+      });
+
+      interaction.reply({
+        content: count > 0
+          ? `\`${packageName}\` no longer grants developer seats, its customers fall back on \`max_developers\`.`
+          : `\`${packageName}\` doesn't grant developer seats.`,
+        flags: MessageFlags.Ephemeral,
+      });
+
+      if (count > 0) logger.info(`Developer seats of '${packageName}' removed by ${user.username} (${user.id})`);
+    } else if (subcommand === 'list') {
+      const allowances = await prisma.packageSeats.findMany({
+        orderBy: {
+          package: 'asc',
+        },
+      });
+
+      const embed = new EmbedBuilder()
+        .setColor(0x5865F2)
+        .setTitle('Package developer seats')
+        .setDescription(
+          allowances.length > 0
+            ? allowances
+              .map(({ package: packageName, seats, perQuantity }) => `* **${packageName}**: ${seats} seat(s)${perQuantity ? ' per unit' : ''}`)
+              .join('\n').slice(0, 4096)
+            : 'No package grants developer seats.'
+        )
+        .setFooter({ text: `Customers get at least ${SettingsManager.get('max_developers')} seat(s) (max_developers)` })
+        .setTimestamp();
+
+      interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+    }
+  },
+  autocomplete: async (logger, client, interaction) => {
+    await RespondPackageAutocomplete(interaction, (search) => prisma.packageSeats.findMany({
+      where: { package: { contains: search } },
+      select: { package: true },
+      take: 25,
+    }));
+  },
+});
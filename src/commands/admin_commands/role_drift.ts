@@ -0,0 +1,51 @@
+import { MessageFlags, PermissionsBitField, SlashCommandBuilder } from "discord.js";
+import SlashCommand from "../../classes/slash_command";
+import RoleDriftManager from "../../handlers/role_drift_handler";
+
+export default new SlashCommand({
+  name: 'role-drift',
+  guildSpecific: true,
+  slashcommand: new SlashCommandBuilder()
+    .setName('role-drift')
+    .setDescription('Compare customer and developer roles against active purchases.')
+    .setDefaultMemberPermissions(PermissionsBitField.Flags.Administrator)
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('check')
+        .setDescription('Report the differences without changing any role.')
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('apply')
+        .setDescription('Report and fix the differences.')
+    ),
+  callback: async (logger, client, interaction) => {
+    const apply = interaction.options.getSubcommand() === 'apply';
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    let report;
+
+    try {
+      report = await RoleDriftManager.run(client, apply);
+    } catch (err) {
+      logger.error('Unable to check role drift:', (err as Error).message);
+
+      interaction.editReply({
+        content: `Unable to check role drift (${(err as Error).message}).`,
+      });
+      return;
+    }
+
+    if (!report) {
+      interaction.editReply({
+        content: 'Unable to check role drift, a check is already running or `customer_role` / `customers_dev_role` are not configured.',
+      });
+      return;
+    }
+
+    interaction.editReply({ embeds: [RoleDriftManager.buildReportEmbed(report)], allowedMentions: { parse: [] } });
+
+    logger.info(`Role drift ${apply ? 'applied' : 'checked'} by ${interaction.user.username} (${interaction.user.id})`);
+  }
+});
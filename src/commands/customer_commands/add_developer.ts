@@ -2,14 +2,17 @@ import { MessageFlags, SlashCommandBuilder } from "discord.js";
 import SlashCommand from "../../classes/slash_command";
 import settings_handler from "../../handlers/settings_handler";
 import PurchaseManager from "../../handlers/purchase_handler";
+import BlacklistManager from "../../handlers/blacklist_handler";
+import DeveloperInviteManager from "../../handlers/developer_invite_handler";
 import { prisma } from "../../utils/prisma";
+import { GetUnixSecondsFromDate } from "../../utils/utils";
 
 export default new SlashCommand({
   name: 'add-developer',
   guildSpecific: true,
   slashcommand: new SlashCommandBuilder()
     .setName('adddeveloper')
-    .setDescription('Add a developer to also gain access to support channels.')
+    .setDescription('Invite a developer to also gain access to support channels.')
     .addUserOption(o =>
       o.setName('member')
       .setDescription('Member to add the developer role')
@@ -47,9 +50,17 @@ export default new SlashCommand({
       },
     });
 
-    if (currentDevs.length >= (settings_handler.get('max_developers') as number)) {
+    // Pending invitations hold a seat until they're answered or expire
+    const pendingInvites = await DeveloperInviteManager.listPending(customerId);
+
+    const seats = await PurchaseManager.getDeveloperSeats(customerId);
+    const usedSeats = currentDevs.length + pendingInvites.length;
+
+    if (usedSeats >= seats) {
       interaction.reply({
-        content: `You've already added the maximum amount of developers for your purchase.`,
+        content: pendingInvites.length > 0
+          ? `All your developer seats are used (${usedSeats}/${seats}), pending invitations can be cancelled with \`/viewdevelopers\`.`
+          : `All your developer seats are used (${usedSeats}/${seats}).`,
         flags: MessageFlags.Ephemeral,
       });
       return;
@@ -66,6 +77,18 @@ export default new SlashCommand({
       return;
     }
 
+    const blacklisted = await BlacklistManager.check({ discordId: user.id }, { discordId: developer.id });
+
+    if (blacklisted) {
+      await BlacklistManager.alertStaff(blacklisted, user, `add <@${developer.id}> as their developer`);
+
+      interaction.reply({
+        content: 'This member can not be added as your developer, please contact the server staff.',
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
     const devRoleId = settings_handler.get('customers_dev_role') as string;
     const role = await guild.roles.fetch(devRoleId);
 
@@ -88,9 +111,7 @@ export default new SlashCommand({
       return;
     }
 
-    if (role) {
-      await developer.roles.add(role, 'Added as developer for purchase');
-    } else {
+    if (!role) {
       logger.error(`Unable to grant customer's developer role, role with ID ${devRoleId} was not found.`);
       interaction.reply({
         content: `Unable to grant customer's developer role, please notify server staff that the bot isn't setup properly.`,
@@ -99,19 +120,20 @@ export default new SlashCommand({
       return;
     }
 
-    await prisma.customerDevelopers.create({
-      data: {
-        customerId: customerId,
-        discordId: developerId.id,
-        addedBy: interaction.user.username,
-      },
-    });
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
 
-    interaction.reply({
-      content: `Customer's developer role was granted to: <@${developer.id}>`,
-      flags: MessageFlags.Ephemeral,
-    });
+    const result = await DeveloperInviteManager.create(customerId, user, developer);
 
-    logger.success(`${developer.user.username} (${developer.id}) was added as developer by ${user.username} (${user.id})`);
+    if (!result.success) {
+      interaction.editReply({
+        content: result.error,
+      });
+      return;
+    }
+
+    interaction.editReply({
+      content: `An invitation was sent to <@${developer.id}>, they will get the developer role once they accept it.\n` +
+        `-# The invitation expires <t:${GetUnixSecondsFromDate(result.invite.expiresAt)}:R>, use \`/viewdevelopers\` to cancel it.`,
+    });
   }
 });
@@ -3,7 +3,11 @@ import SlashCommand from "../../classes/slash_command";
 import tebexHandler from "../../handlers/tebex_handler";
 import SettingsManager from "../../handlers/settings_handler";
 import PurchaseManager from "../../handlers/purchase_handler";
+import BlacklistManager from "../../handlers/blacklist_handler";
+import AuditLogManager from "../../handlers/audit_handler";
+import ClaimGuardManager from "../../handlers/claim_guard_handler";
 import { prisma } from "../../utils/prisma";
+import { GetUnixSecondsFromDate } from "../../utils/utils";
 
 export default new SlashCommand({
   name: 'claim-role',
@@ -31,6 +35,17 @@ export default new SlashCommand({
 
     const transactionId = options.getString('transactionid', true);
 
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    const userLimited = await ClaimGuardManager.checkUserLimit(user, transactionId);
+
+    if (userLimited) {
+      interaction.editReply({
+        content: userLimited,
+      });
+      return;
+    }
+
     const purchaseLog = await prisma.transactions.findUnique({
       where: {
         tbxId: transactionId,
@@ -39,6 +54,10 @@ export default new SlashCommand({
         customerId: true,
         refund: true,
         chargeback: true,
+        purchaserUuid: true,
+        email: true,
+        expiresAt: true,
+        erasedAt: true,
         customer: {
           select: {
             discordId: true,
@@ -52,118 +71,145 @@ export default new SlashCommand({
       discord_id: string | null;
       refund: 0 | 1;
       chargeback: 0 | 1;
+      purchaser_uuid: string;
+      email: string | null;
+      expires_at: Date | null;
+      erased_at: Date | null;
     } | null = purchaseLog ? {
       customer_id: purchaseLog.customerId,
       discord_id: purchaseLog.customer?.discordId ?? null,
       refund: purchaseLog.refund as 0 | 1,
       chargeback: purchaseLog.chargeback as 0 | 1,
+      purchaser_uuid: purchaseLog.purchaserUuid,
+      email: purchaseLog.email,
+      expires_at: purchaseLog.expiresAt,
+      erased_at: purchaseLog.erasedAt,
     } : null;
 
     let currentPurchaseLog = flattenedPurchaseLog;
 
+    // Whether the transaction was looked up on tebex, counted by the global limit
+    let lookup = false;
+
     if (!currentPurchaseLog) {
+      const globalLimited = await ClaimGuardManager.checkGlobalLimit(user, transactionId);
+
+      if (globalLimited) {
+        interaction.editReply({
+          content: globalLimited,
+        });
+        return;
+      }
+
+      lookup = true;
+
       try {
         const rawPurchaseData = await tebexHandler.verifyPurchase(transactionId);
 
         if (!rawPurchaseData.success) {
-          interaction.reply({
-            content: 'The provided transaction ID is invalid.',
-            flags: MessageFlags.Ephemeral,
+          await ClaimGuardManager.record(user, transactionId, rawPurchaseData.type === 'transient' ? 'error' : 'invalid', lookup);
+
+          interaction.editReply({
+            content: rawPurchaseData.type === 'transient'
+              ? 'Tebex is currently unavailable, please try again later.'
+              : 'The provided transaction ID is invalid.',
           });
           return;
         }
 
-        const customerId = await PurchaseManager.getCustomerId(user.id);
-
-        const isRefund = rawPurchaseData.data.status === 'Refund';
-        const isChargeback = rawPurchaseData.data.status === 'Chargeback';
-
-        const newTransaction = await prisma.transactions.create({
-          data: {
-            tbxId: transactionId,
-            customerId: customerId,
-            purchaserName: rawPurchaseData.data.player.name,
-            purchaserUuid: rawPurchaseData.data.player.uuid,
-            refund: isRefund ? 1 : 0,
-            chargeback: isChargeback ? 1 : 0,
-          }
-        });
+        // Saved without an owner, the purchase is only linked to the user once every check passed
+        const newTransaction = await PurchaseManager.savePayment(transactionId, rawPurchaseData.data);
 
         if (!newTransaction) {
+          await ClaimGuardManager.record(user, transactionId, 'error', lookup);
+
           logger.error('Unable to insert purchase to database !');
           logger.error(`Claim role was executed by ${user.username} (${user.id}) with transaction id: ${transactionId} but failed to insert into database.`);
 
-          interaction.reply({
+          interaction.editReply({
             content: 'An error has occured.',
-            flags: MessageFlags.Ephemeral,
           });
           return;
         }
 
-        const packageNames = rawPurchaseData.data.packages.map((p: { name: string; id: number }) => p.name);
-
-        const existingPackages = await prisma.transactionPackages.findMany({
-          where: {
-            tbxId: transactionId,
-            package: {
-              in: packageNames,
-            },
-          },
-          select: {
-            package: true,
-          },
-        });
-
-        const existingPackageNames = new Set(existingPackages.map((p: { package: string }) => p.package));
-
-        const packagesToCreate = packageNames
-          .filter(packageName => !existingPackageNames.has(packageName))
-          .map(packageName => ({
-            tbxId: transactionId,
-            package: packageName,
-          }));
-
-        if (packagesToCreate.length > 0) {
-          await prisma.transactionPackages.createMany({
-            data: packagesToCreate,
-          });
-        }
-
         currentPurchaseLog = {
-          customer_id: customerId,
-          discord_id: user.id,
-          refund: isRefund ? 1 : 0,
-          chargeback: isChargeback ? 1 : 0
+          customer_id: newTransaction.customerId,
+          discord_id: newTransaction.customerId && newTransaction.customerId === await PurchaseManager.getCustomerId(user.id, true) ? user.id : null,
+          refund: newTransaction.refund as 0 | 1,
+          chargeback: newTransaction.chargeback as 0 | 1,
+          purchaser_uuid: newTransaction.purchaserUuid,
+          email: newTransaction.email,
+          expires_at: newTransaction.expiresAt,
+          erased_at: newTransaction.erasedAt,
         }
       } catch (err: any) { // eslint-disable-line
+        await ClaimGuardManager.record(user, transactionId, 'error', lookup);
+
         logger.error('Unable to insert purchase to database !');
         logger.error(`Claim role was executed by ${user.username} (${user.id}) with transaction id: ${transactionId} but failed to insert into database.`);
 
-        interaction.reply({
+        interaction.editReply({
           content: 'An error has occured while checking your transaction ID.',
-          flags: MessageFlags.Ephemeral,
         });
         return;
       }
     }
 
+    const blacklisted = await BlacklistManager.check(
+      { discordId: user.id },
+      { purchaserUuid: currentPurchaseLog.purchaser_uuid, email: currentPurchaseLog.email },
+    );
+
+    if (blacklisted) {
+      await ClaimGuardManager.record(user, transactionId, 'refused', lookup);
+      await BlacklistManager.alertStaff(blacklisted, user, `claim the purchase \`${transactionId}\``);
+
+      interaction.editReply({
+        content: 'You are not allowed to claim purchases, please contact the server staff.',
+      });
+      return;
+    }
+
+    // Kept for refunds and chargebacks only, its owner asked for their data to be erased
+    if (currentPurchaseLog.erased_at) {
+      await ClaimGuardManager.record(user, transactionId, 'refused', lookup);
+
+      interaction.editReply({
+        content: 'The purchase linked to this transaction ID is not claimable, please contact the server staff.',
+      });
+      return;
+    }
+
     if (currentPurchaseLog.chargeback === 1 || currentPurchaseLog.refund === 1) {
-      interaction.reply({
+      await ClaimGuardManager.record(user, transactionId, 'refused', lookup);
+
+      interaction.editReply({
         content: `The purchase linked to this transaction id is not claimable, reason: \`a ${currentPurchaseLog.chargeback === 1 ? 'chargeback' : 'refund'} has been made\`.`,
-        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    if (currentPurchaseLog.expires_at && currentPurchaseLog.expires_at <= new Date()) {
+      await ClaimGuardManager.record(user, transactionId, 'refused', lookup);
+
+      interaction.editReply({
+        content: `The access granted by this purchase expired <t:${GetUnixSecondsFromDate(currentPurchaseLog.expires_at)}:R>.`,
       });
       return;
     }
 
     if (currentPurchaseLog.customer_id && currentPurchaseLog.discord_id !== user.id) {
-      interaction.reply({
+      await ClaimGuardManager.record(user, transactionId, 'conflict', lookup, currentPurchaseLog.discord_id);
+
+      interaction.editReply({
         content: 'The purchase linked to this transaction ID has already been claimed.\nIf you are related to the user, you can ask him to add you as his developer.',
-        flags: MessageFlags.Ephemeral,
       });
       return;
     }
 
-    if (!currentPurchaseLog.customer_id) {
+    let customerId = currentPurchaseLog.customer_id;
+
+    if (!customerId) {
       let customer = await prisma.customers.findUnique({
         where: { discordId: user.id },
         select: { id: true },
@@ -179,9 +225,8 @@ export default new SlashCommand({
           logger.error('Unable to insert customer to database !', e);
           logger.error(`Claim role was executed by ${user.username} (${user.id}) with transaction id: ${transactionId} but failed to insert him into the customer channel.`);
 
-          interaction.reply({
+          interaction.editReply({
             content: 'An error has occured while checking your transaction ID.',
-            flags: MessageFlags.Ephemeral,
           });
           return;
         }
@@ -191,8 +236,14 @@ export default new SlashCommand({
         where: { tbxId: transactionId },
         data: { customerId: customer.id }
       });
+
+      await PurchaseManager.applyAccessDuration(transactionId);
+
+      customerId = customer.id;
     }
 
+    await ClaimGuardManager.record(user, transactionId, 'claimed', lookup);
+
     const customerRole = SettingsManager.get('customer_role') as string;
 
     const role = await guild.roles.fetch(customerRole);
@@ -200,16 +251,28 @@ export default new SlashCommand({
       await (member as GuildMember).roles.add(role, 'Purchase claimed');
     } else {
       logger.error(`Unable to grant customer role, role with ID ${customerRole} was not found.`);
-      interaction.reply({
+      interaction.editReply({
         content: `Unable to grant customer role, please notify server staff that the bot isn't setup properly.`,
-        flags: MessageFlags.Ephemeral,
       });
       return;
     }
 
-    interaction.reply({
-      content: 'Role claim accepted',
-      flags: MessageFlags.Ephemeral,
+    const packageRoles = await PurchaseManager.grantPackageRoles(member as GuildMember, customerId);
+
+    interaction.editReply({
+      content: packageRoles.length > 0
+        ? `Role claim accepted, you were also granted: ${packageRoles.map((roleId) => `<@&${roleId}>`).join(', ')}`
+        : 'Role claim accepted',
+    });
+
+    await AuditLogManager.record({
+      action: 'claim',
+      actorId: user.id,
+      targetId: user.id,
+      tbxId: transactionId,
+      reason: packageRoles.length > 0
+        ? `Claimed with /claimrole, granted: ${packageRoles.map((roleId) => `<@&${roleId}>`).join(', ')}`
+        : 'Claimed with /claimrole',
     });
 
     logger.success(`Purchase: ${transactionId} was claimed by ${user.username} (id: ${user.id})`)
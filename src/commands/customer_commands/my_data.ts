@@ -0,0 +1,50 @@
+import { AttachmentBuilder, MessageFlags, SlashCommandBuilder } from "discord.js";
+import SlashCommand from "../../classes/slash_command";
+import PrivacyManager from "../../handlers/privacy_handler";
+
+export default new SlashCommand({
+  name: 'my-data',
+  guildSpecific: true,
+  slashcommand: new SlashCommandBuilder()
+    .setName('mydata')
+    .setDescription('Manage the data stored about you.')
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('export')
+        .setDescription('Receive every record tied to your account by direct message.')
+    ),
+  callback: async (logger, client, interaction) => {
+    const { user, options } = interaction;
+
+    if (options.getSubcommand() !== 'export') return;
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    const data = await PrivacyManager.collect(user.id);
+
+    const attachment = new AttachmentBuilder(Buffer.from(JSON.stringify(data, null, 2), 'utf-8'), {
+      name: `data-export-${user.id}.json`,
+    });
+
+    try {
+      await user.send({
+        content: 'Here is every record tied to your account. Contact the server staff if you want it erased, ' +
+          'transactions are kept anonymized as they are needed for refunds.',
+        files: [attachment],
+      });
+    } catch (err) {
+      logger.warn(`Unable to DM data export to ${user.id}:`, (err as Error).message);
+
+      interaction.editReply({
+        content: "Unable to send you a direct message, please open your DMs and try again.",
+      });
+      return;
+    }
+
+    logger.info(`${user.username} (${user.id}) exported their data`);
+
+    interaction.editReply({
+      content: 'Your data was sent to you by direct message.',
+    });
+  },
+});
@@ -0,0 +1,21 @@
+import { MessageFlags, SlashCommandBuilder } from "discord.js";
+import SlashCommand from "../../classes/slash_command";
+import PurchaseViewManager from "../../handlers/purchase_view_handler";
+
+export default new SlashCommand({
+  name: 'my-purchases',
+  guildSpecific: true,
+  slashcommand: new SlashCommandBuilder()
+    .setName('mypurchases')
+    .setDescription('View your claimed purchases, their packages and your developers.'),
+  callback: async (logger, client, interaction) => {
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    const components = await PurchaseViewManager.buildCustomerPage(interaction.user.id, 0);
+
+    await interaction.editReply({
+      components,
+      flags: [MessageFlags.IsComponentsV2],
+    });
+  }
+});
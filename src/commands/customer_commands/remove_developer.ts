@@ -2,6 +2,7 @@ import { MessageFlags, SlashCommandBuilder } from "discord.js";
 import SlashCommand from "../../classes/slash_command";
 import settings_handler from "../../handlers/settings_handler";
 import PurchaseManager from "../../handlers/purchase_handler";
+import AuditLogManager from "../../handlers/audit_handler";
 import { prisma } from "../../utils/prisma";
 
 export default new SlashCommand({
@@ -76,6 +77,12 @@ export default new SlashCommand({
       },
     });
 
+    await AuditLogManager.record({
+      action: 'developer_remove',
+      actorId: user.id,
+      targetId: developer.id,
+    });
+
     const member = await guild.members.fetch({ user: developer, cache: false });
 
     if (member) {
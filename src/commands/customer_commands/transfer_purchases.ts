@@ -1,7 +1,8 @@
 import { MessageFlags, SlashCommandBuilder } from "discord.js";
 import SlashCommand from "../../classes/slash_command";
-import settings_handler from "../../handlers/settings_handler";
 import PurchaseManager from "../../handlers/purchase_handler";
+import BlacklistManager from "../../handlers/blacklist_handler";
+import TransferManager from "../../handlers/transfer_handler";
 import { prisma } from "../../utils/prisma";
 
 export default new SlashCommand({
@@ -73,36 +74,41 @@ export default new SlashCommand({
       return;
     }
 
-    const newCustomerId = await PurchaseManager.getCustomerId(newOwner.id);
+    const blacklisted = await BlacklistManager.check({ discordId: user.id }, { discordId: newOwner.id });
 
-    await prisma.transactions.update({
-      where: {
-        tbxId: tbxid,
-      },
-      data: {
-        customerId: newCustomerId,
-      },
-    });
+    if (blacklisted) {
+      await BlacklistManager.alertStaff(blacklisted, user, `transfer the purchase \`${tbxid}\` to <@${newOwner.id}>`);
+
+      interaction.reply({
+        content: 'This purchase can not be transferred, please contact the server staff.',
+        flags: [ MessageFlags.Ephemeral ],
+      });
+      return;
+    }
 
-    await PurchaseManager.checkCustomerPurchases(customerId);
+    if (newOwner.id === user.id || newOwner.bot) {
+      interaction.reply({
+        content: 'Purchases can only be transferred to another member.',
+        flags: [ MessageFlags.Ephemeral ],
+      });
+      return;
+    }
 
-    const customerRole = settings_handler.get('customer_role') as string;
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
 
-    const role = await guild.roles.fetch(customerRole);
+    const result = await TransferManager.request(tbxid, user, newOwner);
 
-    const newCustomer = await guild.members.fetch(newOwner.id);
-    if (newCustomer) {
-      if (role) {
-        await newCustomer.roles.add(role, 'Purchase transferred');
-        logger.success(`Added customer role to ${newCustomer.user.username} (${newCustomer.id}) being transferred from ${user.username} (${user.id}).`);
-      } else {
-        logger.error('Unable to find customer role to add to new customer !');
-      }
+    if (!result.success) {
+      interaction.editReply({
+        content: result.error,
+      });
+      return;
     }
 
-    interaction.reply({
-      content: `The purchase (${tbxid}) was transferred to <@${newOwner.id}>`,
-      flags: MessageFlags.Ephemeral,
+    interaction.editReply({
+      content: result.transfer.status === 'pending'
+        ? `Your request to transfer the purchase (${tbxid}) to <@${newOwner.id}> was sent to the staff, you'll be notified once it's reviewed.`
+        : `The purchase (${tbxid}) was transferred to <@${newOwner.id}>`,
     });
   },
   autocomplete: async (logger, client, interaction) => {
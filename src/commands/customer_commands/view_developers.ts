@@ -1,15 +1,16 @@
-import { MessageFlags, SlashCommandBuilder } from "discord.js";
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, MessageFlags, SlashCommandBuilder } from "discord.js";
 import SlashCommand from "../../classes/slash_command";
-import settings_handler from "../../handlers/settings_handler";
 import PurchaseManager from "../../handlers/purchase_handler";
+import DeveloperInviteManager, { INVITE_CANCEL_PREFIX } from "../../handlers/developer_invite_handler";
 import { prisma } from "../../utils/prisma";
+import { GetUnixSecondsFromDate } from "../../utils/utils";
 
 export default new SlashCommand({
   name: 'view-developers',
   guildSpecific: true,
   slashcommand: new SlashCommandBuilder()
     .setName('viewdevelopers')
-    .setDescription('Add a developer to also gain access to support channels.'),
+    .setDescription('View your developers and pending invitations.'),
   callback: async (logger, client, interaction) => {
     const { user, guild } = interaction;
 
@@ -39,18 +40,48 @@ export default new SlashCommand({
       }
     });
 
-    if (currentDevs.length === 0) {
+    const pendingInvites = await DeveloperInviteManager.listPending(customerId);
+
+    const seats = await PurchaseManager.getDeveloperSeats(customerId);
+
+    if (currentDevs.length === 0 && pendingInvites.length === 0) {
       interaction.reply({
-        content: `You have no linked developers.`,
+        content: `You have no linked developers, ${seats} seat(s) available.`,
         flags: MessageFlags.Ephemeral,
       });
       return;
     }
 
+    const lines = [
+      `Current developers linked (${currentDevs.length + pendingInvites.length}/${seats} seats used):`,
+      ...currentDevs.map(({ discordId }: { discordId: string }, idx: number) => `${idx + 1}. <@${discordId}>`),
+    ];
+
+    if (pendingInvites.length > 0) {
+      lines.push(
+        '',
+        'Pending invitations:',
+        ...pendingInvites.map(({ discordId, expiresAt }, idx) => `${idx + 1}. <@${discordId}>, expires <t:${GetUnixSecondsFromDate(expiresAt)}:R>`),
+      );
+    }
+
+    // Discord allows 5 buttons per row and 5 rows per message
+    const rows: ActionRowBuilder<ButtonBuilder>[] = [];
+    for (const [idx, invite] of pendingInvites.slice(0, 25).entries()) {
+      if (idx % 5 === 0) rows.push(new ActionRowBuilder<ButtonBuilder>());
+
+      rows[rows.length - 1].addComponents(
+        new ButtonBuilder()
+          .setCustomId(`${INVITE_CANCEL_PREFIX}${invite.id}`)
+          .setLabel(`Cancel invitation ${idx + 1}`)
+          .setStyle(ButtonStyle.Secondary)
+      );
+    }
+
     interaction.reply({
-      content: `Current developers linked (${currentDevs.length}/${settings_handler.get('max_developers')}):\n` + currentDevs
-        .map(({ discordId }: { discordId: string }, idx: number) => `${idx + 1}. <@${discordId}>`)
-        .join('\n'),
+      content: lines.join('\n'),
+      components: rows,
+      allowedMentions: { parse: [] },
       flags: MessageFlags.Ephemeral,
     });
   }
@@ -0,0 +1,137 @@
+import { EmbedBuilder, MessageFlags, PermissionsBitField, SlashCommandBuilder } from "discord.js";
+import SlashCommand from "../../classes/slash_command";
+import AuditLogManager, { DEFAULT_LIMIT } from "../../handlers/audit_handler";
+import { GetUnixSecondsFromDate } from "../../utils/utils";
+
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parses a YYYY-MM-DD date as UTC, `endOfDay` makes the bound inclusive.
+ */
+const parseDate = (value: string, endOfDay: boolean): Date | null => {
+  if (!dateRegex.test(value)) return null;
+
+  const date = new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`);
+
+  return isNaN(date.getTime()) ? null : date;
+}
+
+const formatActor = (id: string) => /^\d+$/.test(id) ? `<@${id}>` : `\`${id}\``;
+
+export default new SlashCommand({
+  name: 'audit',
+  guildSpecific: true,
+  slashcommand: new SlashCommandBuilder()
+    .setName('audit')
+    .setDescription('Browse the history of role claims, revocations, developers and transfers.')
+    .setDefaultMemberPermissions(PermissionsBitField.Flags.KickMembers)
+    .addUserOption(o =>
+      o.setName('user')
+        .setDescription('User who made or was affected by the changes')
+        .setRequired(false)
+    )
+    .addStringOption(o =>
+      o.setName('transactionid')
+        .setDescription('Transaction ID')
+        .setRequired(false)
+    )
+    .addStringOption(o =>
+      o.setName('from')
+        .setDescription('Start date, YYYY-MM-DD (UTC)')
+        .setRequired(false)
+    )
+    .addStringOption(o =>
+      o.setName('to')
+        .setDescription('End date, YYYY-MM-DD (UTC)')
+        .setRequired(false)
+    )
+    .addIntegerOption(o =>
+      o.setName('page')
+        .setDescription(`Page of ${DEFAULT_LIMIT} entries, newest first`)
+        .setMinValue(1)
+        .setRequired(false)
+    ),
+  callback: async (logger, client, interaction) => {
+    const { options } = interaction;
+
+    const user = options.getUser('user');
+    const transactionId = options.getString('transactionid')?.trim();
+    const fromInput = options.getString('from')?.trim();
+    const toInput = options.getString('to')?.trim();
+    const page = options.getInteger('page') ?? 1;
+
+    const from = fromInput ? parseDate(fromInput, false) : null;
+    const to = toInput ? parseDate(toInput, true) : null;
+
+    if ((fromInput && !from) || (toInput && !to)) {
+      interaction.reply({
+        content: 'Dates must use the `YYYY-MM-DD` format.',
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    if (from && to && from > to) {
+      interaction.reply({
+        content: 'The start date must be before the end date.',
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    const { entries, total } = await AuditLogManager.search({
+      userId: user?.id,
+      tbxId: transactionId || undefined,
+      from: from ?? undefined,
+      to: to ?? undefined,
+      offset: (page - 1) * DEFAULT_LIMIT,
+    });
+
+    const pageCount = Math.max(1, Math.ceil(total / DEFAULT_LIMIT));
+
+    const filters = [
+      user ? `user ${user.username}` : null,
+      transactionId ? `transaction ${transactionId}` : null,
+      from ? `from ${fromInput}` : null,
+      to ? `to ${toInput}` : null,
+    ].filter(Boolean);
+
+    const lines = entries.map(({ action, actorId, targetId, tbxId, reason, createdAt }) => (
+      `<t:${GetUnixSecondsFromDate(createdAt)}:f> **${action}** by ${formatActor(actorId)}` +
+      (targetId ? ` on ${formatActor(targetId)}` : '') +
+      (tbxId ? ` - \`${tbxId}\`` : '') +
+      (reason ? `\n-# ${reason}` : '')
+    ));
+
+    // Keeps room for the note about the entries that don't fit
+    let description = '';
+    let shown = 0;
+    for (const line of lines) {
+      if (description.length + line.length + 1 > 3900) break;
+      description += (description ? '\n' : '') + line;
+      shown++;
+    }
+
+    if (shown < lines.length) {
+      description += `\n-# ${lines.length - shown} more entr${lines.length - shown === 1 ? 'y' : 'ies'} on this page could not be displayed, narrow down the filters.`;
+    }
+
+    const emptyMessage = total > 0
+      ? `There are only ${pageCount} page(s) of entries matching these filters.`
+      : 'No entries match these filters.';
+
+    const embed = new EmbedBuilder()
+      .setColor(0x5865F2)
+      .setTitle('Audit log')
+      .setDescription(description || emptyMessage)
+      .setFooter({
+        text: `${filters.length > 0 ? `Filtered by ${filters.join(', ')} - ` : ''}` +
+          `page ${page}/${pageCount} - ${total} entr${total === 1 ? 'y' : 'ies'}, newest first`,
+      })
+      .setTimestamp();
+
+    await interaction.editReply({ embeds: [embed] });
+  },
+});
@@ -0,0 +1,134 @@
+import { EmbedBuilder, MessageFlags, PermissionsBitField, SlashCommandBuilder } from "discord.js";
+import { BlacklistType } from "@types";
+import SlashCommand from "../../classes/slash_command";
+import BlacklistManager from "../../handlers/blacklist_handler";
+import { GetUnixSecondsFromDate } from "../../utils/utils";
+
+const TYPE_CHOICES: { name: string; value: BlacklistType }[] = [
+  { name: 'Discord ID', value: 'discord_id' },
+  { name: 'Purchaser UUID', value: 'purchaser_uuid' },
+  { name: 'Email', value: 'email' },
+];
+
+export default new SlashCommand({
+  name: 'blacklist',
+  guildSpecific: true,
+  slashcommand: new SlashCommandBuilder()
+    .setName('blacklist')
+    .setDescription('Manage the identities refused from claiming or sharing purchases.')
+    .setDefaultMemberPermissions(PermissionsBitField.Flags.KickMembers)
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('add')
+        .setDescription('Blacklist an identity.')
+        .addStringOption(o =>
+          o.setName('type')
+            .setDescription('Kind of identity')
+            .setRequired(true)
+            .addChoices(...TYPE_CHOICES)
+        )
+        .addStringOption(o =>
+          o.setName('value')
+            .setDescription('Discord ID, purchaser UUID or email')
+            .setRequired(true)
+        )
+        .addStringOption(o =>
+          o.setName('reason')
+            .setDescription('Why the identity is blacklisted')
+            .setRequired(true)
+            .setMaxLength(500)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('remove')
+        .setDescription('Lift the blacklist of an identity.')
+        .addStringOption(o =>
+          o.setName('type')
+            .setDescription('Kind of identity')
+            .setRequired(true)
+            .addChoices(...TYPE_CHOICES)
+        )
+        .addStringOption(o =>
+          o.setName('value')
+            .setDescription('Discord ID, purchaser UUID or email')
+            .setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('list')
+        .setDescription('List the blacklisted identities.')
+        .addStringOption(o =>
+          o.setName('type')
+            .setDescription('Only list one kind of identity')
+            .setRequired(false)
+            .addChoices(...TYPE_CHOICES)
+        )
+    ),
+  callback: async (logger, client, interaction) => {
+    const { options, user } = interaction;
+
+    const subcommand = options.getSubcommand();
+
+    if (subcommand === 'add') {
+      const type = options.getString('type', true) as BlacklistType;
+      const value = options.getString('value', true);
+      const reason = options.getString('reason', true);
+
+      const added = await BlacklistManager.add(type, value, reason, user.id);
+
+      interaction.reply({
+        content: added
+          ? `\`${BlacklistManager.normalize(type, value)}\` was blacklisted.`
+          : `\`${BlacklistManager.normalize(type, value)}\` is already blacklisted.`,
+        flags: MessageFlags.Ephemeral,
+      });
+
+      if (added) logger.info(`${type} ${value} blacklisted by ${user.username} (${user.id}): ${reason}`);
+    } else if (subcommand === 'remove') {
+      const type = options.getString('type', true) as BlacklistType;
+      const value = options.getString('value', true);
+
+      const removed = await BlacklistManager.remove(type, value);
+
+      interaction.reply({
+        content: removed
+          ? `\`${BlacklistManager.normalize(type, value)}\` is no longer blacklisted.`
+          : `\`${BlacklistManager.normalize(type, value)}\` is not blacklisted.`,
+        flags: MessageFlags.Ephemeral,
+      });
+
+      if (removed) logger.info(`${type} ${value} removed from the blacklist by ${user.username} (${user.id})`);
+    } else if (subcommand === 'list') {
+      const type = options.getString('type') as BlacklistType | null;
+
+      const entries = await BlacklistManager.list(type ?? undefined);
+
+      const lines = entries.map(({ type, value, reason, addedBy, addedAt }) => (
+        `* \`${type}\` \`${value}\` - <t:${GetUnixSecondsFromDate(addedAt)}:d>\n` +
+        `  ${reason} (${/^\d+$/.test(addedBy) ? `<@${addedBy}>` : addedBy})`
+      ));
+
+      let description = '';
+      for (const [i, line] of lines.entries()) {
+        const more = `\n-# and ${lines.length - i} more`;
+
+        if (description.length + line.length + more.length + 1 > 4096) {
+          description += more;
+          break;
+        }
+
+        description += (description ? '\n' : '') + line;
+      }
+
+      const embed = new EmbedBuilder()
+        .setColor(0xED4245)
+        .setTitle(`Blacklist (${entries.length})`)
+        .setDescription(description || 'No identities are blacklisted.')
+        .setTimestamp();
+
+      interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+    }
+  },
+});
@@ -1,5 +1,10 @@
 import SlashCommand from "../../classes/slash_command";
+import audit from "./audit";
+import blacklist from "./blacklist";
 import removeTicketParticipant from "./remove_ticket_participant";
+import tebex_cache from "./tebex_cache";
+import transaction from "./transaction";
+import transfers from "./transfers";
 import verify from "./verify";
 import view_purchases from "./view_purchases";
 
@@ -7,4 +12,9 @@ export default [
   verify,
   view_purchases,
   removeTicketParticipant,
+  tebex_cache,
+  blacklist,
+  audit,
+  transfers,
+  transaction,
 ] as SlashCommand[];
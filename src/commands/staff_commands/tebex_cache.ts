@@ -0,0 +1,70 @@
+import { EmbedBuilder, MessageFlags, PermissionsBitField, SlashCommandBuilder } from "discord.js";
+import SlashCommand from "../../classes/slash_command";
+import tebexHandler from "../../handlers/tebex_handler";
+
+export default new SlashCommand({
+  name: 'tebex-cache',
+  guildSpecific: true,
+  slashcommand: new SlashCommandBuilder()
+    .setName('tebex-cache')
+    .setDescription('Inspect or reset the Tebex payment lookup cache')
+    .setDefaultMemberPermissions(PermissionsBitField.Flags.KickMembers)
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('stats')
+        .setDescription('View cache hit/miss counters.')
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('clear')
+        .setDescription('Clear the cache, or a single transaction from it.')
+        .addStringOption(o =>
+          o.setName('transactionid')
+            .setDescription('Transaction id to drop from the cache')
+            .setRequired(false)
+        )
+    ),
+  callback: async (logger, client, interaction) => {
+    const subcommand = interaction.options.getSubcommand();
+
+    if (subcommand === 'stats') {
+      const { hits, misses, entries } = tebexHandler.getCacheStats();
+      const lookups = hits + misses;
+
+      const embed = new EmbedBuilder()
+        .setColor(0x5865F2)
+        .setTitle('Tebex payment cache')
+        .addFields(
+          { name: 'Hits', value: `${hits}`, inline: true },
+          { name: 'Misses', value: `${misses}`, inline: true },
+          { name: 'Hit rate', value: lookups > 0 ? `${Math.round((hits / lookups) * 100)}%` : 'N/A', inline: true },
+          { name: 'Cached entries', value: `${entries}`, inline: true },
+        )
+        .setTimestamp();
+
+      await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+    } else if (subcommand === 'clear') {
+      const transactionId = interaction.options.getString('transactionid');
+
+      if (transactionId) {
+        const removed = tebexHandler.invalidatePurchase(transactionId);
+
+        await interaction.reply({
+          content: removed
+            ? `\`${transactionId}\` was removed from the cache.`
+            : `\`${transactionId}\` was not cached.`,
+          flags: MessageFlags.Ephemeral,
+        });
+      } else {
+        tebexHandler.clearCache();
+
+        await interaction.reply({
+          content: 'The Tebex payment cache was cleared.',
+          flags: MessageFlags.Ephemeral,
+        });
+      }
+
+      logger.info(`Tebex cache cleared${transactionId ? ` for ${transactionId}` : ''} by ${interaction.user.username} (${interaction.user.id})`);
+    }
+  }
+});
@@ -0,0 +1,253 @@
+import { MessageFlags, PermissionsBitField, SlashCommandBuilder } from "discord.js";
+import SlashCommand from "../../classes/slash_command";
+import PurchaseManager from "../../handlers/purchase_handler";
+import AuditLogManager from "../../handlers/audit_handler";
+import BlacklistManager from "../../handlers/blacklist_handler";
+import TransferManager from "../../handlers/transfer_handler";
+import tebexHandler from "../../handlers/tebex_handler";
+import { prisma } from "../../utils/prisma";
+
+export default new SlashCommand({
+  name: 'transaction',
+  guildSpecific: true,
+  slashcommand: new SlashCommandBuilder()
+    .setName('transaction')
+    .setDescription('Fix the ownership of a transaction by hand.')
+    .setDefaultMemberPermissions(PermissionsBitField.Flags.KickMembers)
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('link')
+        .setDescription('Link a transaction to a member, fetched from Tebex if unknown.')
+        .addStringOption(o =>
+          o.setName('transactionid')
+            .setDescription('Transaction ID')
+            .setRequired(true)
+        )
+        .addUserOption(o =>
+          o.setName('member')
+            .setDescription('Member receiving the transaction')
+            .setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('unlink')
+        .setDescription('Detach a transaction from its customer.')
+        .addStringOption(o =>
+          o.setName('transactionid')
+            .setDescription('Transaction ID')
+            .setRequired(true)
+        )
+        .addStringOption(o =>
+          o.setName('reason')
+            .setDescription('Why the transaction is detached')
+            .setRequired(false)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('revoke')
+        .setDescription('Flag a whole transaction as refunded or chargebacked.')
+        .addStringOption(o =>
+          o.setName('transactionid')
+            .setDescription('Transaction ID')
+            .setRequired(true)
+        )
+        .addStringOption(o =>
+          o.setName('reason')
+            .setDescription('Why the transaction is revoked')
+            .setRequired(true)
+        )
+        .addStringOption(o =>
+          o.setName('type')
+            .setDescription('Revocation type (default: refund), chargebacks blacklist the purchaser')
+            .setRequired(false)
+            .addChoices(
+              { name: 'Refund', value: 'refund' },
+              { name: 'Chargeback', value: 'chargeback' },
+            )
+        )
+    ),
+  callback: async (logger, client, interaction) => {
+    const { options, user } = interaction;
+
+    const subcommand = options.getSubcommand();
+    const transactionId = options.getString('transactionid', true).trim();
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    const transaction = await prisma.transactions.findUnique({
+      where: {
+        tbxId: transactionId,
+      },
+      select: {
+        refund: true,
+        chargeback: true,
+        purchaserUuid: true,
+        email: true,
+        customer: {
+          select: {
+            id: true,
+            discordId: true,
+          },
+        },
+      },
+    });
+
+    if (subcommand === 'link') {
+      const member = options.getUser('member', true);
+
+      if (transaction?.customer?.discordId === member.id) {
+        interaction.editReply({
+          content: `\`${transactionId}\` is already linked to <@${member.id}>.`,
+        });
+        return;
+      }
+
+      const payment = transaction ? null : await tebexHandler.verifyPurchase(transactionId);
+
+      if (payment && !payment.success) {
+        interaction.editReply({
+          content: payment.type === 'transient'
+            ? 'Tebex is currently unavailable, please try again later.'
+            : `\`${transactionId}\` is unknown to Tebex.`,
+        });
+        return;
+      }
+
+      const blacklisted = await BlacklistManager.check(
+        { discordId: member.id },
+        payment?.success
+          ? { purchaserUuid: payment.data.player.uuid, email: payment.data.email }
+          : { purchaserUuid: transaction?.purchaserUuid, email: transaction?.email },
+      );
+
+      if (blacklisted) {
+        interaction.editReply({
+          content: `\`${transactionId}\` can not be linked to <@${member.id}>, \`${blacklisted.type}\` \`${blacklisted.value}\` is blacklisted: ${blacklisted.reason}\n` +
+            '-# Remove the entry with `/blacklist remove` first if the link is legitimate.',
+        });
+        return;
+      }
+
+      const customerId = await PurchaseManager.getCustomerId(member.id);
+
+      if (payment?.success) {
+        await PurchaseManager.savePayment(transactionId, payment.data, customerId);
+      } else {
+        await prisma.transactions.update({
+          where: {
+            tbxId: transactionId,
+          },
+          data: {
+            customerId,
+          },
+        });
+
+        await PurchaseManager.applyAccessDuration(transactionId);
+      }
+
+      const previousOwner = transaction?.customer;
+
+      await TransferManager.cancelPending(transactionId, 'the purchase was linked to another account by the staff.');
+
+      await AuditLogManager.record({
+        action: 'link',
+        actorId: user.id,
+        targetId: member.id,
+        tbxId: transactionId,
+        reason: previousOwner ? `Previously linked to ${previousOwner.discordId}` : null,
+      });
+
+      if (previousOwner) {
+        await PurchaseManager.checkCustomerPurchases(previousOwner.id)
+          .catch((err) => logger.error(`Unable to update the roles of ${previousOwner.discordId}:`, (err as Error).message));
+      }
+
+      const active = await PurchaseManager.grantCustomerRoles(member.id, customerId, `Transaction linked by ${user.username}`);
+
+      logger.info(`${transactionId} was linked to ${member.username} (${member.id}) by ${user.username} (${user.id})`);
+
+      interaction.editReply({
+        content: `\`${transactionId}\` is now linked to <@${member.id}>` +
+          (previousOwner ? `, it was previously linked to <@${previousOwner.discordId}>` : '') + '.' +
+          (active ? '' : '\n-# The transaction is not active, no roles were granted.'),
+      });
+    } else if (subcommand === 'unlink') {
+      const reason = options.getString('reason')?.trim() || null;
+
+      if (!transaction?.customer) {
+        interaction.editReply({
+          content: `\`${transactionId}\` is not linked to any member.`,
+        });
+        return;
+      }
+
+      const { customer } = transaction;
+
+      await prisma.transactions.update({
+        where: {
+          tbxId: transactionId,
+        },
+        data: {
+          customerId: null,
+        },
+      });
+
+      await TransferManager.cancelPending(transactionId, 'the purchase was detached from your account by the staff.');
+
+      await AuditLogManager.record({
+        action: 'unlink',
+        actorId: user.id,
+        targetId: customer.discordId,
+        tbxId: transactionId,
+        reason,
+      });
+
+      await PurchaseManager.checkCustomerPurchases(customer.id)
+        .catch((err) => logger.error(`Unable to update the roles of ${customer.discordId}:`, (err as Error).message));
+
+      logger.info(`${transactionId} was unlinked from ${customer.discordId} by ${user.username} (${user.id})`);
+
+      interaction.editReply({
+        content: `\`${transactionId}\` was detached from <@${customer.discordId}>, it can be claimed again.`,
+      });
+    } else if (subcommand === 'revoke') {
+      const reason = options.getString('reason', true).trim();
+      const type = (options.getString('type') ?? 'refund') as 'refund' | 'chargeback';
+
+      if (!transaction) {
+        interaction.editReply({
+          content: `\`${transactionId}\` is unknown to the bot.`,
+        });
+        return;
+      }
+
+      if (transaction[type] === 1) {
+        interaction.editReply({
+          content: `\`${transactionId}\` is already flagged as ${type}.`,
+        });
+        return;
+      }
+
+      try {
+        // Runs PurchaseManager.checkCustomerPurchases on the customer the transaction is linked to
+        await PurchaseManager.revokeTransaction(transactionId, type, undefined, { actorId: user.id, reason });
+      } catch (err) {
+        logger.error(`Unable to flag ${transactionId} as ${type}:`, (err as Error).message);
+
+        interaction.editReply({
+          content: `Unable to flag \`${transactionId}\` as ${type} (${(err as Error).message}).`,
+        });
+        return;
+      }
+
+      logger.info(`${transactionId} was flagged as ${type} by ${user.username} (${user.id}): ${reason}`);
+
+      interaction.editReply({
+        content: `\`${transactionId}\` was flagged as ${type}` +
+          (transaction.customer ? `, the roles of <@${transaction.customer.discordId}> were updated.` : '.'),
+      });
+    }
+  },
+});
@@ -0,0 +1,80 @@
+import { EmbedBuilder, MessageFlags, PermissionsBitField, SlashCommandBuilder } from "discord.js";
+import SlashCommand from "../../classes/slash_command";
+import TransferManager from "../../handlers/transfer_handler";
+import { GetUnixSecondsFromDate } from "../../utils/utils";
+
+export default new SlashCommand({
+  name: 'transfers',
+  guildSpecific: true,
+  slashcommand: new SlashCommandBuilder()
+    .setName('transfers')
+    .setDescription('Review the transfers of a purchase.')
+    .setDefaultMemberPermissions(PermissionsBitField.Flags.KickMembers)
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('history')
+        .setDescription('List every transfer request of a purchase.')
+        .addStringOption(o =>
+          o.setName('transactionid')
+            .setDescription('Transaction ID')
+            .setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('revert')
+        .setDescription('Move a transferred purchase back to its previous owner.')
+        .addIntegerOption(o =>
+          o.setName('transfer')
+            .setDescription('Transfer number, as shown in the history')
+            .setRequired(true)
+            .setMinValue(1)
+        )
+        .addStringOption(o =>
+          o.setName('reason')
+            .setDescription('Why the transfer is reverted')
+            .setRequired(false)
+        )
+    ),
+  callback: async (logger, client, interaction) => {
+    const { options, user } = interaction;
+
+    const subcommand = options.getSubcommand();
+
+    if (subcommand === 'history') {
+      const transactionId = options.getString('transactionid', true).trim();
+
+      const transfers = await TransferManager.history(transactionId);
+
+      const lines = transfers.map(({ id, fromDiscordId, toDiscordId, status, reviewedBy, createdAt, revertedBy, reason }) => (
+        `**#${id}** <t:${GetUnixSecondsFromDate(createdAt)}:f> <@${fromDiscordId}> → <@${toDiscordId}>: **${status}**` +
+        (reviewedBy ? ` by <@${reviewedBy}>` : '') +
+        (revertedBy ? `\n-# Reverted by <@${revertedBy}>${reason ? `: ${reason}` : ''}` : '')
+      ));
+
+      let description = '';
+      for (const line of lines) {
+        if (description.length + line.length + 1 > 4096) break;
+        description += (description ? '\n' : '') + line;
+      }
+
+      const embed = new EmbedBuilder()
+        .setColor(0x5865F2)
+        .setTitle(`Transfers of ${transactionId}`)
+        .setDescription(description || 'This purchase was never transferred.')
+        .setFooter({ text: `${transfers.length} transfer request(s), newest first` })
+        .setTimestamp();
+
+      interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+    } else if (subcommand === 'revert') {
+      const transferId = options.getInteger('transfer', true);
+      const reason = options.getString('reason')?.trim() || null;
+
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+      const content = await TransferManager.revert(transferId, user, reason);
+
+      await interaction.editReply({ content });
+    }
+  },
+});
@@ -1,6 +1,7 @@
 import { ContainerBuilder, MessageFlags, PermissionsBitField, SeparatorBuilder, SeparatorSpacingSize, SlashCommandBuilder, TextDisplayBuilder } from "discord.js";
 import SlashCommand from "../../classes/slash_command";
 import tebexHandler from "../../handlers/tebex_handler";
+import PurchaseManager from "../../handlers/purchase_handler";
 import { prisma } from "../../utils/prisma";
 
 const formatDateFromString = (dateString: string) => {
@@ -55,6 +56,11 @@ export default new SlashCommand({
         }
       })
 
+      if (purchaseData) {
+        await PurchaseManager.savePayment(transactionid, transactionDetails.data)
+          .catch((err) => logger.error(`Unable to update payment details of ${transactionid}:`, (err as Error).message));
+      }
+
       container
         .setAccentColor(1950208)
         .addTextDisplayComponents(
@@ -63,7 +69,7 @@ export default new SlashCommand({
             `* Email: ${email}\n` +
             `* Packages:\n` +
             packages.map(({ name, id }) => `  * ${name} (${id})`).join('\n') + '\n' +
-            `* Amount: ${amount}${currency.symbol}`+
+            `* Amount: ${amount}${currency.symbol} (${currency.iso_4217})\n`+
             (
               purchaseData && purchaseData.customer?.discordId
                 ? `* Linked discord: <@${purchaseData.customer.discordId}>`
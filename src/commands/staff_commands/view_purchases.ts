@@ -1,27 +1,59 @@
-import { ContainerBuilder, MessageFlags, PermissionsBitField, SeparatorBuilder, SeparatorSpacingSize, SlashCommandBuilder, TextDisplayBuilder } from "discord.js";
+import { MessageFlags, PermissionsBitField, SlashCommandBuilder } from "discord.js";
+import { PurchaseStatusFilter } from "@types";
 import SlashCommand from "../../classes/slash_command";
-import { prisma } from "../../utils/prisma";
-import PurchaseManager from "../../handlers/purchase_handler";
-import { GetUnixSecondsFromDate } from "../../utils/utils";
+import { RespondPackageAutocomplete } from "../../utils/packages";
+import PurchaseViewManager from "../../handlers/purchase_view_handler";
 
 export default new SlashCommand({
   name: 'view-purchases',
   guildSpecific: true,
   slashcommand: new SlashCommandBuilder()
     .setName('view-purchase')
-    .setDescription('View the purchases claimed by a user')
+    .setDescription('View the purchases claimed by a user, or search transactions')
     .setDefaultMemberPermissions(PermissionsBitField.Flags.KickMembers)
     .addUserOption(o =>
       o.setName('user')
         .setDescription('User you want to see their purchases')
-        .setRequired(true)
+        .setRequired(false)
+    )
+    .addStringOption(o =>
+      o.setName('transactionid')
+        .setDescription('Transaction ID, or part of it')
+        .setRequired(false)
+    )
+    .addStringOption(o =>
+      o.setName('purchaser')
+        .setDescription('Purchaser name, or part of it')
+        .setRequired(false)
+    )
+    .addStringOption(o =>
+      o.setName('status')
+        .setDescription('Only show transactions with this status (default: all)')
+        .setRequired(false)
+        .addChoices(
+          { name: 'All', value: 'all' },
+          { name: 'Active', value: 'active' },
+          { name: 'Refunded or chargebacked', value: 'refunded' },
+        )
+    )
+    .addStringOption(o =>
+      o.setName('package')
+        .setDescription('Only show transactions including this package')
+        .setRequired(false)
+        .setAutocomplete(true)
     ),
   callback: async (logger, client, interaction) => {
-    const user = interaction.options.getUser('user');
+    const { options } = interaction;
 
-    if (!user) {
+    const user = options.getUser('user');
+    const tbxId = options.getString('transactionid')?.trim() || undefined;
+    const purchaserName = options.getString('purchaser')?.trim() || undefined;
+    const packageName = options.getString('package')?.trim() || undefined;
+    const status = (options.getString('status') ?? 'all') as PurchaseStatusFilter;
+
+    if (!user && !tbxId && !purchaserName) {
       interaction.reply({
-        content: 'No user was provided',
+        content: 'Provide a user, a transaction ID or a purchaser name to search for.',
         flags: MessageFlags.Ephemeral,
       });
       return;
@@ -29,57 +61,23 @@ export default new SlashCommand({
 
     await interaction.deferReply();
 
-    const customerId = await PurchaseManager.getCustomerId(user.id, true);
-
-    const container = new ContainerBuilder()
-      .addTextDisplayComponents(
-        new TextDisplayBuilder({ type: 10, content: '# Claimed Transactions' })
-      )
-      .addSeparatorComponents(
-        new SeparatorBuilder().setSpacing(SeparatorSpacingSize.Small).setDivider(true),
-      );
-
-    if (customerId) {
-      const purchases = await prisma.transactions.findMany({
-        where: {
-          customerId,
-        },
-        include: {
-          transactionPackages: true,
-        },
-      });
-
-      const text = purchases.map(
-        (e: { tbxId: string; chargeback: number; refund: number; createdAt: Date; transactionPackages: { package: string }[] }, i: number) => {
-          const unixTimestamp = GetUnixSecondsFromDate(e.createdAt);
-          const packages = e.transactionPackages.map((e: { package: string }) => `${e.package}`).join('\n  *');
-
-          const flag = e.chargeback || e.refund
-            ? `- :x: **${e.chargeback ? 'CHARGEBACK' : 'REFUND'}** -`
-            : '-';
+    const searchId = await PurchaseViewManager.saveSearch(interaction.user.id, {
+      discordId: user?.id,
+      tbxId,
+      purchaserName,
+      packageName,
+      status,
+    });
 
-          return  `${i + 1}. ${e.tbxId} ${flag} <t:${unixTimestamp}:d>\n`+
-                  `  * ${packages}`;
-      }).join('\n')
-
-      container
-        .setAccentColor(1950208)
-        .addTextDisplayComponents(
-          new TextDisplayBuilder().setContent(text),
-        );
-    } else {
-      container
-        .setAccentColor(16711680)
-        .addTextDisplayComponents(
-          new TextDisplayBuilder().setContent(`The user ${user.id} ( <@${user.id}> ) is not listed as having any purchases.`)
-        );
-    }
+    const components = await PurchaseViewManager.buildStaffPage(searchId, 0);
 
     await interaction.editReply({
-      components: [
-        container,
-      ],
+      components: components ?? [],
+      allowedMentions: { parse: [] },
       flags: [MessageFlags.IsComponentsV2],
     })
-  }
+  },
+  autocomplete: async (logger, client, interaction) => {
+    await RespondPackageAutocomplete(interaction);
+  },
 });
@@ -0,0 +1,42 @@
+import { ButtonInteraction, Events, MessageFlags } from "discord.js";
+import EventHandler from "../classes/event_handler";
+
+import PurchaseManager from "../handlers/purchase_handler";
+import DeveloperInviteManager, { INVITE_ACCEPT_PREFIX, INVITE_CANCEL_PREFIX, INVITE_DECLINE_PREFIX } from "../handlers/developer_invite_handler";
+
+export default new EventHandler({
+  name: 'DEVELOPER-INVITES',
+  eventName: Events.InteractionCreate,
+  type: "on",
+  callback: async (logger, client, interaction: ButtonInteraction) => {
+    if (!interaction.isButton()) return;
+
+    const { customId, user } = interaction;
+
+    if (customId.startsWith(INVITE_ACCEPT_PREFIX) || customId.startsWith(INVITE_DECLINE_PREFIX)) {
+      const accepting = customId.startsWith(INVITE_ACCEPT_PREFIX);
+      const inviteId = parseInt(customId.slice((accepting ? INVITE_ACCEPT_PREFIX : INVITE_DECLINE_PREFIX).length), 10);
+
+      await interaction.deferUpdate();
+
+      const content = accepting
+        ? await DeveloperInviteManager.accept(inviteId, user)
+        : await DeveloperInviteManager.decline(inviteId, user);
+
+      await interaction.editReply({ content, components: [] })
+        .catch((err) => logger.error('Unable to answer developer invitation:', (err as Error).message));
+    } else if (customId.startsWith(INVITE_CANCEL_PREFIX)) {
+      const inviteId = parseInt(customId.slice(INVITE_CANCEL_PREFIX.length), 10);
+
+      const customerId = await PurchaseManager.getCustomerId(user.id, true);
+      const cancelled = customerId ? await DeveloperInviteManager.cancel(inviteId, customerId) : false;
+
+      await interaction.reply({
+        content: cancelled
+          ? 'The invitation was cancelled.'
+          : 'This invitation is no longer pending.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+  }
+});
@@ -1,12 +1,20 @@
 import EventHandler from "../classes/event_handler";
 import command_handler from "./command_handler";
+import developer_invites from "./developer_invites";
+import member_join from "./member_join";
+import purchase_pages from "./purchase_pages";
 import ready from "./ready";
 import tickets from "./tickets";
 import transaction from "./transaction";
+import transfer_reviews from "./transfer_reviews";
 
 export default [
   ...tickets,
   transaction,
+  member_join,
+  developer_invites,
+  transfer_reviews,
+  purchase_pages,
   command_handler,
   ready,
 ] as EventHandler[];
@@ -0,0 +1,17 @@
+import { Events, GuildMember } from "discord.js";
+import EventHandler from "../classes/event_handler";
+import env from "../utils/config";
+
+import PurchaseManager from "../handlers/purchase_handler";
+
+export default new EventHandler({
+  name: 'MEMBER-JOIN',
+  eventName: Events.GuildMemberAdd,
+  type: "on",
+  callback: async (logger, client, member: GuildMember) => {
+    if (member.guild.id !== env.MAIN_GUILD_ID || member.user.bot) return;
+
+    await PurchaseManager.restoreMemberRoles(member)
+      .catch((err) => logger.error(`Unable to restore roles of ${member.id}:`, (err as Error).message));
+  }
+});
@@ -0,0 +1,50 @@
+import { ButtonInteraction, Events, MessageFlags, PermissionsBitField } from "discord.js";
+import EventHandler from "../classes/event_handler";
+
+import PurchaseViewManager, { MY_PURCHASES_PAGE_PREFIX, VIEW_PURCHASES_PAGE_PREFIX } from "../handlers/purchase_view_handler";
+
+export default new EventHandler({
+  name: 'PURCHASE-PAGES',
+  eventName: Events.InteractionCreate,
+  type: "on",
+  callback: async (logger, client, interaction: ButtonInteraction) => {
+    if (!interaction.isButton()) return;
+
+    const { customId, user } = interaction;
+
+    if (customId.startsWith(MY_PURCHASES_PAGE_PREFIX)) {
+      const page = parseInt(customId.slice(MY_PURCHASES_PAGE_PREFIX.length), 10) || 0;
+
+      await interaction.deferUpdate();
+
+      // Always scoped to the user clicking, the message is ephemeral
+      const components = await PurchaseViewManager.buildCustomerPage(user.id, page);
+
+      await interaction.editReply({ components, flags: [MessageFlags.IsComponentsV2] })
+        .catch((err) => logger.error('Unable to change purchases page:', (err as Error).message));
+    } else if (customId.startsWith(VIEW_PURCHASES_PAGE_PREFIX)) {
+      if (!interaction.memberPermissions?.has(PermissionsBitField.Flags.KickMembers)) {
+        await interaction.reply({
+          content: 'Only staff members can browse these purchases.',
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+
+      const [searchId, page] = customId.slice(VIEW_PURCHASES_PAGE_PREFIX.length).split(':');
+
+      const components = await PurchaseViewManager.buildStaffPage(parseInt(searchId, 10), parseInt(page, 10) || 0);
+
+      if (!components) {
+        await interaction.reply({
+          content: 'This search no longer exists, run `/view-purchase` again.',
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+
+      await interaction.update({ components, allowedMentions: { parse: [] }, flags: [MessageFlags.IsComponentsV2] })
+        .catch((err) => logger.error('Unable to change purchases page:', (err as Error).message));
+    }
+  }
+});
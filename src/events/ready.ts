@@ -1,6 +1,11 @@
 import { Events } from "discord.js";
 import EventHandler from "../classes/event_handler";
 import Ticket from "../handlers/ticket_handler";
+import ReconciliationManager from "../handlers/reconciliation_handler";
+import AccessExpiryManager from "../handlers/expiry_handler";
+import PaymentLogManager from "../handlers/payment_log_handler";
+import SettingsManager from "../handlers/settings_handler";
+import RoleDriftManager, { RoleDriftStartupMode } from "../handlers/role_drift_handler";
 
 export default new EventHandler({
   name: 'READY',
@@ -11,6 +16,20 @@ export default new EventHandler({
 
     Ticket.reloadTickets(client);
 
+    ReconciliationManager.start(client);
+
+    AccessExpiryManager.start(client);
+
+    PaymentLogManager.catchUp(client)
+      .catch((err) => logger.error('Unable to catch up on payment notifications:', (err as Error).message));
+
+    const roleDriftMode = SettingsManager.get<number>('role_drift_on_startup') ?? RoleDriftStartupMode.DryRun;
+
+    if (roleDriftMode !== RoleDriftStartupMode.Disabled) {
+      RoleDriftManager.run(client, roleDriftMode === RoleDriftStartupMode.Apply)
+        .catch((err) => logger.error('Unable to check role drift:', (err as Error).message));
+    }
+
     logger.success(`Booted up and logged in as @${client.user?.username}#${client.user?.discriminator}`)
   }
 });
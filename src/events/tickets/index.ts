@@ -1,8 +1,10 @@
 import EventHandler from "../../classes/event_handler";
 import closeTicket from "./close-ticket";
 import ticketMessage from "./ticket-message";
+import ticketMessageUpdate from "./ticket-message-update";
 
 export default [
   closeTicket,
   ticketMessage,
+  ticketMessageUpdate,
 ] as EventHandler[];
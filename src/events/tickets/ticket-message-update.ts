@@ -0,0 +1,24 @@
+import { Events, Message, PartialMessage } from "discord.js";
+import EventHandler from "../../classes/event_handler";
+import Ticket from "../../handlers/ticket_handler";
+
+export default new EventHandler({
+  name: 'TICKET-MESSAGE-UPDATE',
+  eventName: Events.MessageUpdate,
+  type: "on",
+  callback: async (logger, client, _oldMessage: Message | PartialMessage, newMessage: Message | PartialMessage) => {
+    const ticket = Ticket.getTicket(newMessage.channelId);
+
+    if (!ticket) return;
+
+    try {
+      const message = newMessage.partial ? await newMessage.fetch() : newMessage;
+
+      if (!message.inGuild()) return;
+
+      await ticket.handleMessageUpdate(message);
+    } catch (err) {
+      logger.error(`Unable to store edit of message ${newMessage.id}:`, (err as Error).message);
+    }
+  }
+});
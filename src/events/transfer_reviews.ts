@@ -0,0 +1,45 @@
+import { ButtonInteraction, EmbedBuilder, Events, MessageFlags, PermissionsBitField } from "discord.js";
+import EventHandler from "../classes/event_handler";
+
+import TransferManager, { TRANSFER_APPROVE_PREFIX, TRANSFER_DENY_PREFIX } from "../handlers/transfer_handler";
+
+export default new EventHandler({
+  name: 'TRANSFER-REVIEWS',
+  eventName: Events.InteractionCreate,
+  type: "on",
+  callback: async (logger, client, interaction: ButtonInteraction) => {
+    if (!interaction.isButton()) return;
+
+    const { customId, user, message } = interaction;
+
+    if (!customId.startsWith(TRANSFER_APPROVE_PREFIX) && !customId.startsWith(TRANSFER_DENY_PREFIX)) return;
+
+    if (!interaction.memberPermissions?.has(PermissionsBitField.Flags.KickMembers)) {
+      await interaction.reply({
+        content: 'Only staff members can review transfers.',
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    const approving = customId.startsWith(TRANSFER_APPROVE_PREFIX);
+    const transferId = parseInt(customId.slice((approving ? TRANSFER_APPROVE_PREFIX : TRANSFER_DENY_PREFIX).length), 10);
+
+    await interaction.deferUpdate();
+
+    const outcome = approving
+      ? await TransferManager.approve(transferId, user)
+      : await TransferManager.deny(transferId, user);
+
+    const embed = message.embeds[0]
+      ? EmbedBuilder.from(message.embeds[0])
+      : new EmbedBuilder().setTitle('Purchase transfer request');
+
+    embed
+      .setColor(approving ? 0x57F287 : 0xED4245)
+      .addFields({ name: 'Review', value: outcome.slice(0, 1024), inline: false });
+
+    await interaction.editReply({ embeds: [embed], components: [], allowedMentions: { parse: [] } })
+      .catch((err) => logger.error('Unable to update transfer review:', (err as Error).message));
+  }
+});
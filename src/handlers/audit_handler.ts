@@ -0,0 +1,61 @@
+import { AuditEntry, AuditFilters } from "@types";
+import { AuditLog } from "@prisma/client";
+import Logger from "../utils/logger";
+import { prisma } from "../utils/prisma";
+
+const logger = new Logger('Audit');
+
+export const DEFAULT_LIMIT = 25;
+
+export const SYSTEM_ACTOR = 'system';
+
+class AuditLogManager {
+  /**
+   * Records an entitlement change, failures are only logged so they never interrupt the change itself.
+   */
+  public static async record(entry: AuditEntry) {
+    await prisma.auditLog.create({
+      data: {
+        action: entry.action,
+        actorId: entry.actorId,
+        targetId: entry.targetId ?? null,
+        tbxId: entry.tbxId ?? null,
+        reason: entry.reason ?? null,
+      },
+    }).catch((err) => {
+      logger.error(`Unable to record ${entry.action} audit entry:`, (err as Error).message);
+    });
+  }
+
+  /**
+   * @returns matching entries, newest first, along with the total amount of matches
+   */
+  public static async search(filters: AuditFilters): Promise<{ entries: AuditLog[]; total: number }> {
+    const where = {
+      ...(filters.userId ? { OR: [{ actorId: filters.userId }, { targetId: filters.userId }] } : {}),
+      ...(filters.tbxId ? { tbxId: filters.tbxId } : {}),
+      ...(filters.from || filters.to ? {
+        createdAt: {
+          ...(filters.from ? { gte: filters.from } : {}),
+          ...(filters.to ? { lte: filters.to } : {}),
+        },
+      } : {}),
+    };
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: {
+          createdAt: 'desc',
+        },
+        skip: filters.offset ?? 0,
+        take: filters.limit ?? DEFAULT_LIMIT,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    return { entries, total };
+  }
+}
+
+export default AuditLogManager;
@@ -0,0 +1,198 @@
+import { BlacklistIdentity, BlacklistType, DiscordClient } from "@types";
+import { EmbedBuilder, User } from "discord.js";
+import { Blacklist } from "@prisma/client";
+import Logger from "../utils/logger";
+import { SYSTEM_ACTOR } from "./audit_handler";
+import { prisma } from "../utils/prisma";
+import { PostStaffLog } from "../utils/staff_log";
+
+const logger = new Logger('Blacklist');
+
+class BlacklistManager {
+  private static discordClient: DiscordClient;
+
+  public static setDiscordClient(client: DiscordClient) {
+    this.discordClient = client;
+  }
+
+  /**
+   * Normalizes a value so the same identity can't be written two different ways.
+   */
+  public static normalize(type: BlacklistType, value: string): string {
+    const trimmed = value.trim();
+
+    switch (type) {
+      case 'discord_id':
+        return trimmed.replace(/^<@!?(\d+)>$/, '$1');
+      case 'email':
+      case 'purchaser_uuid':
+        return trimmed.toLowerCase();
+    }
+  }
+
+  /**
+   * Blacklists the purchaser, email and discord account of a chargebacked transaction.
+   *
+   * @param transactionId tebex transaction id
+   * @returns amount of new entries
+   */
+  public static async recordChargeback(transactionId: string): Promise<number> {
+    const transaction = await prisma.transactions.findUnique({
+      where: {
+        tbxId: transactionId,
+      },
+      select: {
+        purchaserUuid: true,
+        email: true,
+        customer: {
+          select: {
+            discordId: true,
+          },
+        },
+      },
+    });
+
+    if (!transaction) return 0;
+
+    const identities: [BlacklistType, string | null | undefined][] = [
+      ['purchaser_uuid', transaction.purchaserUuid],
+      ['email', transaction.email],
+      ['discord_id', transaction.customer?.discordId],
+    ];
+
+    let added = 0;
+    for (const [type, value] of identities) {
+      if (!value || !value.trim()) continue;
+
+      if (await this.add(type, value, `Chargeback on ${transactionId}`, SYSTEM_ACTOR, transactionId)) added++;
+    }
+
+    if (added > 0) {
+      logger.info(`Blacklisted ${added} identit${added > 1 ? 'ies' : 'y'} after the chargeback of ${transactionId}`);
+    }
+
+    return added;
+  }
+
+  /**
+   * Removes the entries automatically created by a chargeback, i.e. when the dispute was won.
+   *
+   * @param transactionId tebex transaction id
+   * @returns amount of removed entries
+   */
+  public static async clearChargeback(transactionId: string): Promise<number> {
+    const { count } = await prisma.blacklist.deleteMany({
+      where: {
+        tbxId: transactionId,
+        addedBy: SYSTEM_ACTOR,
+      },
+    });
+
+    if (count > 0) {
+      logger.info(`Removed ${count} blacklist entr${count > 1 ? 'ies' : 'y'} created by the chargeback of ${transactionId}`);
+    }
+
+    return count;
+  }
+
+  /**
+   * @returns {boolean} the entry was created, false if the identity was already blacklisted
+   */
+  public static async add(type: BlacklistType, value: string, reason: string, addedBy: string, transactionId?: string): Promise<boolean> {
+    const normalized = this.normalize(type, value);
+
+    const existing = await prisma.blacklist.findUnique({
+      where: {
+        type_value: {
+          type,
+          value: normalized,
+        },
+      },
+    });
+
+    if (existing) return false;
+
+    await prisma.blacklist.create({
+      data: {
+        type,
+        value: normalized,
+        reason,
+        tbxId: transactionId ?? null,
+        addedBy,
+      },
+    });
+
+    return true;
+  }
+
+  /**
+   * @returns {boolean} the entry existed
+   */
+  public static async remove(type: BlacklistType, value: string): Promise<boolean> {
+    const { count } = await prisma.blacklist.deleteMany({
+      where: {
+        type,
+        value: this.normalize(type, value),
+      },
+    });
+
+    return count > 0;
+  }
+
+  public static async list(type?: BlacklistType): Promise<Blacklist[]> {
+    return await prisma.blacklist.findMany({
+      where: type ? { type } : {},
+      orderBy: {
+        addedAt: 'desc',
+      },
+    });
+  }
+
+  /**
+   * Looks up the first blacklist entry matching one of the identities.
+   *
+   * @returns matching entry, null if none of the identities are blacklisted
+   */
+  public static async check(...identities: BlacklistIdentity[]): Promise<Blacklist | null> {
+    const conditions: { type: BlacklistType; value: string }[] = [];
+
+    for (const { discordId, purchaserUuid, email } of identities) {
+      if (discordId) conditions.push({ type: 'discord_id', value: this.normalize('discord_id', discordId) });
+      if (purchaserUuid) conditions.push({ type: 'purchaser_uuid', value: this.normalize('purchaser_uuid', purchaserUuid) });
+      if (email) conditions.push({ type: 'email', value: this.normalize('email', email) });
+    }
+
+    if (conditions.length === 0) return null;
+
+    return await prisma.blacklist.findFirst({
+      where: {
+        OR: conditions,
+      },
+    });
+  }
+
+  /**
+   * Posts an alert in the staff log channel when a blacklisted identity tries to use a command.
+   *
+   * @param entry matched blacklist entry
+   * @param user user who ran the command
+   * @param context what the user attempted
+   */
+  public static async alertStaff(entry: Blacklist, user: User, context: string) {
+    logger.warn(`Blacklisted ${entry.type} (${entry.value}) matched for ${user.username} (${user.id}): ${context}`);
+
+    const embed = new EmbedBuilder()
+      .setTitle('Blacklisted identity refused')
+      .setColor(0xED4245)
+      .setDescription(`<@${user.id}> (${user.username}) tried to ${context}.`)
+      .addFields(
+        { name: 'Matched', value: `\`${entry.type}\`: \`${entry.value}\``, inline: true },
+        { name: 'Reason', value: entry.reason.slice(0, 1024), inline: true },
+      )
+      .setTimestamp();
+
+    await PostStaffLog(this.discordClient, embed, 'blacklist alert');
+  }
+}
+
+export default BlacklistManager;
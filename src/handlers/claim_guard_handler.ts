@@ -0,0 +1,211 @@
+import { EmbedBuilder, User } from "discord.js";
+import { ClaimAttemptOutcome, DiscordClient } from "@types";
+import Logger from "../utils/logger";
+import SettingsManager from "./settings_handler";
+import { prisma } from "../utils/prisma";
+import { GetUnixSecondsFromDate } from "../utils/utils";
+import { PostStaffLog } from "../utils/staff_log";
+
+const logger = new Logger('Claim Guard');
+
+const FAILED_OUTCOMES: ClaimAttemptOutcome[] = ['invalid', 'refused', 'conflict'];
+
+// Old attempts are pruned at most once per hour, when new ones are recorded
+const PRUNE_INTERVAL = 60 * 60 * 1000;
+
+class ClaimGuardManager {
+  private static discordClient: DiscordClient;
+  private static lastGlobalAlert = 0;
+  private static lastPrune = 0;
+
+  public static setDiscordClient(client: DiscordClient) {
+    this.discordClient = client;
+  }
+
+  /**
+   * Start of the current rate limit window, `claim_rate_window` minutes ago.
+   */
+  private static getWindowStart(): Date {
+    const windowMinutes = SettingsManager.get<number>('claim_rate_window') ?? 10;
+
+    return new Date(Date.now() - Math.max(1, windowMinutes) * 60 * 1000);
+  }
+
+  /**
+   * Checks the `claim_user_limit` failed attempts a user can make per window, successful claims don't
+   * count towards it. A refused attempt is recorded and staff are alerted the first time the limit is
+   * crossed in a window.
+   *
+   * @returns message to display to the user, null if the attempt is allowed
+   */
+  public static async checkUserLimit(user: User, transactionId: string): Promise<string | null> {
+    const limit = SettingsManager.get<number>('claim_user_limit') ?? 0;
+
+    if (limit <= 0) return null;
+
+    const since = this.getWindowStart();
+
+    const attempts = await prisma.claimAttempts.findMany({
+      where: {
+        discordId: user.id,
+        createdAt: { gte: since },
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+      select: {
+        outcome: true,
+        createdAt: true,
+      },
+    });
+
+    const counted = attempts.filter(({ outcome }) => FAILED_OUTCOMES.includes(outcome as ClaimAttemptOutcome));
+
+    if (counted.length < limit) return null;
+
+    await this.record(user, transactionId, 'rate_limited');
+
+    if (!attempts.some(({ outcome }) => outcome === 'rate_limited')) {
+      await this.alertStaff(
+        'Claim rate limit reached',
+        `<@${user.id}> (${user.username}) made ${counted.length} failed claim attempts since <t:${GetUnixSecondsFromDate(since)}:t>, further attempts are refused.`,
+      );
+    }
+
+    // Attempts leave the window one by one, the user can retry once enough of them are out of it
+    const retryAt = new Date(counted[counted.length - limit].createdAt.getTime() + (Date.now() - since.getTime()));
+
+    return `You've made too many failed claim attempts, please try again <t:${GetUnixSecondsFromDate(retryAt)}:R>.`;
+  }
+
+  /**
+   * Checks the `claim_global_limit` tebex lookups allowed per window across every user, which keeps
+   * transaction id probing from exhausting the tebex API.
+   *
+   * @returns message to display to the user, null if the lookup is allowed
+   */
+  public static async checkGlobalLimit(user: User, transactionId: string): Promise<string | null> {
+    const limit = SettingsManager.get<number>('claim_global_limit') ?? 0;
+
+    if (limit <= 0) return null;
+
+    const lookups = await prisma.claimAttempts.count({
+      where: {
+        lookup: 1,
+        createdAt: { gte: this.getWindowStart() },
+      },
+    });
+
+    if (lookups < limit) return null;
+
+    await this.record(user, transactionId, 'rate_limited');
+
+    if (Date.now() - this.lastGlobalAlert > (SettingsManager.get<number>('claim_rate_window') ?? 10) * 60 * 1000) {
+      this.lastGlobalAlert = Date.now();
+
+      await this.alertStaff(
+        'Global claim limit reached',
+        `${lookups} unknown transaction IDs were looked up on Tebex in the last ${SettingsManager.get('claim_rate_window')} minute(s), ` +
+        `new claims are paused. Last attempt by <@${user.id}> (${user.username}).`,
+      );
+    }
+
+    return 'Too many claims are being processed right now, please try again in a few minutes.';
+  }
+
+  /**
+   * Records the outcome of a claim attempt. Staff are alerted of every attempt on a transaction owned
+   * by someone else, and when a user's failed attempts reach `claim_failure_alert` in a window.
+   *
+   * @param user user who ran /claimrole
+   * @param transactionId transaction id they submitted
+   * @param outcome result of the attempt
+   * @param lookup the transaction was looked up on tebex
+   * @param ownerId discord id of the customer owning the transaction, for conflicts
+   */
+  public static async record(user: User, transactionId: string, outcome: ClaimAttemptOutcome, lookup: boolean = false, ownerId?: string | null) {
+    try {
+      await prisma.claimAttempts.create({
+        data: {
+          discordId: user.id,
+          tbxId: transactionId,
+          outcome,
+          lookup: lookup ? 1 : 0,
+        },
+      });
+    } catch (err) {
+      logger.error('Unable to record claim attempt:', (err as Error).message);
+      return;
+    }
+
+    await this.prune();
+
+    if (outcome === 'claimed' || outcome === 'rate_limited' || outcome === 'error') return;
+
+    logger.warn(`Claim attempt by ${user.username} (${user.id}) on ${transactionId} failed: ${outcome}`);
+
+    if (outcome === 'conflict') {
+      await this.alertStaff(
+        'Claim on an owned transaction',
+        `<@${user.id}> (${user.username}) tried to claim \`${transactionId}\`, which is already claimed by ${ownerId ? `<@${ownerId}>` : 'another customer'}.`,
+      );
+    }
+
+    const threshold = SettingsManager.get<number>('claim_failure_alert') ?? 0;
+
+    if (threshold <= 0) return;
+
+    const failures = await prisma.claimAttempts.count({
+      where: {
+        discordId: user.id,
+        outcome: { in: FAILED_OUTCOMES },
+        createdAt: { gte: this.getWindowStart() },
+      },
+    });
+
+    if (failures === threshold) {
+      await this.alertStaff(
+        'Repeated failed claims',
+        `<@${user.id}> (${user.username}) made ${failures} failed claim attempts in the last ${SettingsManager.get('claim_rate_window')} minute(s), ` +
+        `latest on \`${transactionId}\` (${outcome}).`,
+      );
+    }
+  }
+
+  /**
+   * Deletes the attempts older than `claim_attempt_retention` days.
+   */
+  private static async prune() {
+    if (Date.now() - this.lastPrune < PRUNE_INTERVAL) return;
+
+    this.lastPrune = Date.now();
+
+    const retentionDays = SettingsManager.get<number>('claim_attempt_retention') ?? 30;
+
+    if (retentionDays <= 0) return;
+
+    try {
+      const { count } = await prisma.claimAttempts.deleteMany({
+        where: {
+          createdAt: { lt: new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000) },
+        },
+      });
+
+      if (count > 0) logger.info(`Pruned ${count} claim attempt(s) older than ${retentionDays} day(s)`);
+    } catch (err) {
+      logger.error('Unable to prune claim attempts:', (err as Error).message);
+    }
+  }
+
+  private static async alertStaff(title: string, description: string) {
+    const embed = new EmbedBuilder()
+      .setTitle(title)
+      .setColor(0xFEE75C)
+      .setDescription(description)
+      .setTimestamp();
+
+    await PostStaffLog(this.discordClient, embed, 'claim alert');
+  }
+}
+
+export default ClaimGuardManager;
@@ -0,0 +1,289 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, EmbedBuilder, GuildMember, User } from "discord.js";
+import { DeveloperInviteStatus, DiscordClient } from "@types";
+import { DeveloperInvites } from "@prisma/client";
+import Logger from "../utils/logger";
+import env from "../utils/config";
+import SettingsManager from "./settings_handler";
+import PurchaseManager from "./purchase_handler";
+import BlacklistManager from "./blacklist_handler";
+import AuditLogManager from "./audit_handler";
+import { prisma } from "../utils/prisma";
+import { GetUnixSecondsFromDate } from "../utils/utils";
+
+const logger = new Logger('Developer Invites');
+
+export const INVITE_ACCEPT_PREFIX = 'dev-invite-accept:';
+export const INVITE_DECLINE_PREFIX = 'dev-invite-decline:';
+export const INVITE_CANCEL_PREFIX = 'dev-invite-cancel:';
+
+const DEFAULT_EXPIRY_HOURS = 48;
+
+type InviteResult = { success: true; invite: DeveloperInvites } | { success: false; error: string };
+
+class DeveloperInviteManager {
+  private static discordClient: DiscordClient;
+
+  public static setDiscordClient(client: DiscordClient) {
+    this.discordClient = client;
+  }
+
+  /**
+   * Creates a pending invitation and DMs the invited member with Accept/Decline buttons.
+   * The developer role is only granted once the invitation is accepted.
+   *
+   * @param customerId internal customer id of the inviting customer
+   * @param inviter customer sending the invitation
+   * @param target member invited as developer
+   */
+  public static async create(customerId: number, inviter: User, target: GuildMember): Promise<InviteResult> {
+    await this.expireStale();
+
+    const existing = await prisma.developerInvites.findFirst({
+      where: {
+        customerId,
+        discordId: target.id,
+        status: 'pending',
+      },
+    });
+
+    if (existing) {
+      return { success: false, error: `<@${target.id}> already has a pending invitation, expiring <t:${GetUnixSecondsFromDate(existing.expiresAt)}:R>.` };
+    }
+
+    const expiryHours = SettingsManager.get<number>('developer_invite_expiry') ?? DEFAULT_EXPIRY_HOURS;
+
+    const invite = await prisma.developerInvites.create({
+      data: {
+        customerId,
+        discordId: target.id,
+        invitedBy: inviter.id,
+        expiresAt: new Date(Date.now() + Math.max(1, expiryHours) * 60 * 60 * 1000),
+      },
+    });
+
+    const embed = new EmbedBuilder()
+      .setColor(0x5865F2)
+      .setTitle('Developer invitation')
+      .setDescription(
+        `<@${inviter.id}> (${inviter.username}) invited you to join their purchases as a developer on **${target.guild.name}**, ` +
+        'giving you access to the customer support channels.\n' +
+        `This invitation expires <t:${GetUnixSecondsFromDate(invite.expiresAt)}:R>.`
+      )
+      .setTimestamp();
+
+    const buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`${INVITE_ACCEPT_PREFIX}${invite.id}`)
+        .setLabel('Accept')
+        .setStyle(ButtonStyle.Success),
+      new ButtonBuilder()
+        .setCustomId(`${INVITE_DECLINE_PREFIX}${invite.id}`)
+        .setLabel('Decline')
+        .setStyle(ButtonStyle.Danger),
+    );
+
+    try {
+      await target.send({ embeds: [embed], components: [buttons] });
+    } catch (err) {
+      logger.warn(`Unable to DM developer invitation to ${target.id}:`, (err as Error).message);
+
+      await this.setStatus(invite.id, 'cancelled');
+
+      return { success: false, error: `<@${target.id}> doesn't accept direct messages, ask them to open their DMs and try again.` };
+    }
+
+    logger.info(`${inviter.username} (${inviter.id}) invited ${target.user.username} (${target.id}) as developer`);
+
+    return { success: true, invite };
+  }
+
+  /**
+   * Accepts an invitation, links the developer and grants them the developer role.
+   *
+   * @returns message to display to the invited member
+   */
+  public static async accept(inviteId: number, user: User): Promise<string> {
+    const invite = await this.getPendingInvite(inviteId, user.id);
+
+    if (typeof invite === 'string') return invite;
+
+    // Either side may have been blacklisted since the invitation was sent
+    const blacklisted = await BlacklistManager.check({ discordId: user.id }, { discordId: invite.invitedBy });
+
+    if (blacklisted) {
+      await this.setStatus(invite.id, 'cancelled');
+      await BlacklistManager.alertStaff(blacklisted, user, `accept the developer invitation of <@${invite.invitedBy}>`);
+
+      return 'This invitation is no longer valid, please contact the server staff.';
+    }
+
+    const hasPurchases = await PurchaseManager.checkCustomerPurchases(invite.customerId).catch(() => false);
+
+    if (!hasPurchases) {
+      await this.setStatus(invite.id, 'cancelled');
+      return 'This invitation is no longer valid, the purchases it was for are no longer active.';
+    }
+
+    const developers = await prisma.customerDevelopers.count({
+      where: {
+        customerId: invite.customerId,
+      },
+    });
+
+    if (developers >= await PurchaseManager.getDeveloperSeats(invite.customerId)) {
+      await this.setStatus(invite.id, 'cancelled');
+      return 'This invitation is no longer valid, the customer has no developer seat left.';
+    }
+
+    const guild = await this.discordClient.guilds.fetch(env.MAIN_GUILD_ID);
+    const member = await guild.members.fetch(user.id).catch(() => null);
+
+    if (!member) {
+      return `You need to be on **${guild.name}** to accept this invitation.`;
+    }
+
+    const devRoleId = SettingsManager.get<string>('customers_dev_role') as string;
+
+    try {
+      await member.roles.add(devRoleId, 'Developer invitation accepted');
+    } catch (err) {
+      logger.error(`Unable to grant customer's developer role to ${user.id}:`, (err as Error).message);
+      return `Unable to grant the developer role, please notify server staff that the bot isn't setup properly.`;
+    }
+
+    const inviter = await this.discordClient.users.fetch(invite.invitedBy).catch(() => null);
+
+    await prisma.customerDevelopers.upsert({
+      where: {
+        customerId_discordId: {
+          customerId: invite.customerId,
+          discordId: user.id,
+        },
+      },
+      update: {},
+      create: {
+        customerId: invite.customerId,
+        discordId: user.id,
+        addedBy: inviter?.username ?? invite.invitedBy,
+      },
+    });
+
+    await this.setStatus(invite.id, 'accepted');
+
+    await AuditLogManager.record({
+      action: 'developer_add',
+      actorId: invite.invitedBy,
+      targetId: user.id,
+      reason: 'Invitation accepted',
+    });
+
+    this.notifyInviter(invite, `<@${user.id}> accepted your developer invitation.`);
+
+    logger.success(`${user.username} (${user.id}) accepted the developer invitation of ${invite.invitedBy}`);
+
+    return `You are now a developer of <@${invite.invitedBy}>'s purchases on **${guild.name}**.`;
+  }
+
+  /**
+   * @returns message to display to the invited member
+   */
+  public static async decline(inviteId: number, user: User): Promise<string> {
+    const invite = await this.getPendingInvite(inviteId, user.id);
+
+    if (typeof invite === 'string') return invite;
+
+    await this.setStatus(invite.id, 'declined');
+
+    this.notifyInviter(invite, `<@${user.id}> declined your developer invitation.`);
+
+    return 'You declined the invitation.';
+  }
+
+  /**
+   * Withdraws a pending invitation.
+   *
+   * @param inviteId invitation id
+   * @param customerId internal customer id of the customer cancelling it
+   * @returns {boolean} the invitation was pending and belonged to the customer
+   */
+  public static async cancel(inviteId: number, customerId: number): Promise<boolean> {
+    const { count } = await prisma.developerInvites.updateMany({
+      where: {
+        id: inviteId,
+        customerId,
+        status: 'pending',
+      },
+      data: {
+        status: 'cancelled',
+        respondedAt: new Date(),
+      },
+    });
+
+    return count > 0;
+  }
+
+  public static async listPending(customerId: number): Promise<DeveloperInvites[]> {
+    await this.expireStale();
+
+    return await prisma.developerInvites.findMany({
+      where: {
+        customerId,
+        status: 'pending',
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+    });
+  }
+
+  private static async getPendingInvite(inviteId: number, discordId: string): Promise<DeveloperInvites | string> {
+    const invite = await prisma.developerInvites.findUnique({
+      where: {
+        id: inviteId,
+      },
+    });
+
+    if (!invite || invite.discordId !== discordId) return 'This invitation was not found.';
+
+    if (invite.status === 'pending' && invite.expiresAt <= new Date()) {
+      await this.setStatus(invite.id, 'expired');
+      return 'This invitation has expired.';
+    }
+
+    if (invite.status !== 'pending') return `This invitation was already ${invite.status}.`;
+
+    return invite;
+  }
+
+  private static async expireStale() {
+    await prisma.developerInvites.updateMany({
+      where: {
+        status: 'pending',
+        expiresAt: { lte: new Date() },
+      },
+      data: {
+        status: 'expired',
+      },
+    });
+  }
+
+  private static async setStatus(inviteId: number, status: DeveloperInviteStatus) {
+    await prisma.developerInvites.update({
+      where: {
+        id: inviteId,
+      },
+      data: {
+        status,
+        respondedAt: new Date(),
+      },
+    });
+  }
+
+  private static notifyInviter(invite: DeveloperInvites, content: string) {
+    this.discordClient.users.fetch(invite.invitedBy)
+      .then((user) => user.send({ content, allowedMentions: { parse: [] } }))
+      .catch((err) => logger.warn(`Unable to notify ${invite.invitedBy} about invitation ${invite.id}:`, (err as Error).message));
+  }
+}
+
+export default DeveloperInviteManager;
@@ -0,0 +1,208 @@
+import { EmbedBuilder } from "discord.js";
+import { DiscordClient } from "@types";
+import Logger from "../utils/logger";
+import SettingsManager from "./settings_handler";
+import PurchaseManager from "./purchase_handler";
+import AuditLogManager, { SYSTEM_ACTOR } from "./audit_handler";
+import { prisma } from "../utils/prisma";
+import { GetUnixSecondsFromDate } from "../utils/utils";
+
+const logger = new Logger('Access Expiry');
+
+const CHECK_INTERVAL = 15 * 60 * 1000;
+
+interface ExpiringTransaction {
+  id: number;
+  tbxId: string;
+  customerId: number | null;
+  expiresAt: Date | null;
+  customer: { discordId: string } | null;
+  transactionPackages: { package: string; packageId: number | null }[];
+}
+
+class AccessExpiryManager {
+  private static discordClient: DiscordClient;
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = false;
+
+  /**
+   * Schedules the expiry checks. Progress is stored on each transaction, so reminders and
+   * revocations missed while the bot was offline are handled on the next run.
+   */
+  public static start(client: DiscordClient) {
+    this.discordClient = client;
+
+    if (this.timer) clearInterval(this.timer);
+
+    const run = () => this.run().catch((err) => logger.error('Expiry check failed:', (err as Error).message));
+
+    this.timer = setInterval(run, CHECK_INTERVAL);
+    run();
+  }
+
+  public static async run() {
+    if (this.running) return;
+
+    this.running = true;
+
+    try {
+      await this.sendReminders();
+      await this.handleExpiries();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * DMs the customers whose access expires within `expiry_reminder_days` days, once per transaction.
+   */
+  private static async sendReminders() {
+    const reminderDays = SettingsManager.get<number>('expiry_reminder_days') ?? 7;
+
+    if (reminderDays <= 0) return;
+
+    const now = new Date();
+
+    const transactions = await prisma.transactions.findMany({
+      where: {
+        customerId: { not: null },
+        refund: 0,
+        chargeback: 0,
+        reminderSentAt: null,
+        expiresAt: {
+          gt: now,
+          lte: new Date(now.getTime() + reminderDays * 24 * 60 * 60 * 1000),
+        },
+      },
+      include: {
+        customer: true,
+        transactionPackages: true,
+      },
+    });
+
+    for (const transaction of transactions) {
+      await prisma.transactions.update({
+        where: { id: transaction.id },
+        data: { reminderSentAt: now },
+      });
+
+      if (await this.isRenewed(transaction)) continue;
+
+      await this.notify(
+        transaction,
+        new EmbedBuilder()
+          .setColor(0xFEE75C)
+          .setTitle('Your access is about to expire')
+          .setDescription(
+            `Your access to **${this.formatPackages(transaction)}** expires <t:${GetUnixSecondsFromDate(transaction.expiresAt!)}:R>.\n` +
+            'Renew your purchase and link it with `/claimrole` to keep your roles, the remaining time is carried over.'
+          )
+          .setFooter({ text: transaction.tbxId })
+          .setTimestamp()
+      );
+    }
+  }
+
+  /**
+   * Revokes the roles of customers whose access expired, through PurchaseManager.checkCustomerPurchases.
+   */
+  private static async handleExpiries() {
+    const now = new Date();
+
+    const transactions = await prisma.transactions.findMany({
+      where: {
+        expiryHandledAt: null,
+        expiresAt: {
+          lte: now,
+        },
+      },
+      include: {
+        customer: true,
+        transactionPackages: true,
+      },
+    });
+
+    for (const transaction of transactions) {
+      await prisma.transactions.update({
+        where: { id: transaction.id },
+        data: { expiryHandledAt: now },
+      });
+
+      if (!transaction.customer || !transaction.customerId) continue;
+
+      await AuditLogManager.record({
+        action: 'expire',
+        actorId: SYSTEM_ACTOR,
+        targetId: transaction.customer.discordId,
+        tbxId: transaction.tbxId,
+        reason: `Access expired on ${transaction.expiresAt!.toISOString()}`,
+      });
+
+      await PurchaseManager.checkCustomerPurchases(transaction.customerId)
+        .catch((err) => logger.error(`Unable to revoke expired access of ${transaction.tbxId}:`, (err as Error).message));
+
+      logger.info(`Access granted by ${transaction.tbxId} expired`);
+
+      if (transaction.refund === 1 || transaction.chargeback === 1 || await this.isRenewed(transaction)) continue;
+
+      await this.notify(
+        transaction,
+        new EmbedBuilder()
+          .setColor(0xED4245)
+          .setTitle('Your access has expired')
+          .setDescription(
+            `Your access to **${this.formatPackages(transaction)}** has expired and the related roles were removed.\n` +
+            'Renew your purchase and link it with `/claimrole` to get them back.'
+          )
+          .setFooter({ text: transaction.tbxId })
+          .setTimestamp()
+      );
+    }
+  }
+
+  /**
+   * Whether the customer linked a renewal ending after this transaction.
+   */
+  private static async isRenewed(transaction: ExpiringTransaction): Promise<boolean> {
+    if (!transaction.customerId || !transaction.expiresAt) return false;
+
+    const renewals = await prisma.transactions.findMany({
+      where: {
+        customerId: transaction.customerId,
+        id: { not: transaction.id },
+        refund: 0,
+        chargeback: 0,
+        expiresAt: { gt: transaction.expiresAt },
+      },
+      select: {
+        transactionPackages: {
+          select: {
+            package: true,
+            packageId: true,
+          },
+        },
+      },
+    });
+
+    return renewals.some(({ transactionPackages }) => transactionPackages.some((renewalPackage) => (
+      PurchaseManager.isMappingActive(renewalPackage, transaction.transactionPackages)
+    )));
+  }
+
+  private static formatPackages(transaction: ExpiringTransaction): string {
+    return transaction.transactionPackages.map(({ package: packageName }) => packageName).join(', ') || transaction.tbxId;
+  }
+
+  private static async notify(transaction: ExpiringTransaction, embed: EmbedBuilder) {
+    if (!transaction.customer) return;
+
+    try {
+      const user = await this.discordClient.users.fetch(transaction.customer.discordId);
+      await user.send({ embeds: [embed] });
+    } catch (err) {
+      logger.warn(`Unable to DM ${transaction.customer.discordId} about ${transaction.tbxId}:`, (err as Error).message);
+    }
+  }
+}
+
+export default AccessExpiryManager;
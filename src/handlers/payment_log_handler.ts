@@ -0,0 +1,372 @@
+import { Collection, EmbedBuilder, Message, TextChannel } from "discord.js";
+import { DiscordClient, NotificationOutcome, NotificationOutcomeStatus, TebexWebhookJsonPayload } from "@types";
+import Logger from "../utils/logger";
+import SettingsManager from "./settings_handler";
+import PurchaseManager from "./purchase_handler";
+import tebexHandler from "./tebex_handler";
+import { prisma } from "../utils/prisma";
+import { PostStaffLog } from "../utils/staff_log";
+
+const logger = new Logger('Payment Log');
+
+// Maximum amount of messages a catch-up goes through
+const DEFAULT_MAX_MESSAGES = 1000;
+
+const OUTCOME_REACTIONS: Record<NotificationOutcomeStatus, string> = {
+  accepted: '✅',
+  ignored: '➖',
+  rejected: '❌',
+  failed: '⚠️',
+};
+
+const OUTCOME_LABELS: Record<Exclude<NotificationOutcomeStatus, 'accepted'>, string> = {
+  ignored: 'Ignored',
+  rejected: 'Rejected',
+  failed: 'Failed',
+};
+
+interface CatchUpResult {
+  fetched: number;
+  processed: number;
+  skipped: number;
+  truncated: boolean;
+}
+
+class PaymentLogManager {
+  private static catchingUp = false;
+  private static caughtUp = false;
+
+  /**
+   * Whether a message was posted by the notifier in the payment log channel.
+   */
+  public static isNotification(message: Message): boolean {
+    if (!message.guild) return false;
+    if (message.channelId !== SettingsManager.get('payment_log_channel') as string) return false;
+    if (message.author.id !== SettingsManager.get('notifying_discord_id') as string) return false;
+
+    return true;
+  }
+
+  /**
+   * Handles a tebex notification message, each message is only ever processed once unless handling it failed.
+   *
+   * @param message message from the payment log channel
+   * @returns {boolean} the message was processed, false if it was already processed or isn't a notification
+   */
+  public static async processMessage(message: Message): Promise<boolean> {
+    if (!this.isNotification(message)) return false;
+
+    const alreadyProcessed = await prisma.processedNotifications.findUnique({
+      where: {
+        messageId: message.id,
+      },
+      select: {
+        status: true,
+      },
+    });
+
+    if (alreadyProcessed && alreadyProcessed.status !== 'failed') return false;
+
+    const result = tebexHandler.parsePurchaseJson(message.content);
+    const purchaseData = result.success ? result.data : null;
+
+    const details = {
+      action: purchaseData?.action ?? null,
+      tbxId: purchaseData?.transaction ?? null,
+    };
+
+    // Recorded before handling so a crash mid-way can't lead to a double revocation on replay
+    const record = await prisma.processedNotifications.upsert({
+      where: {
+        messageId: message.id,
+      },
+      update: {
+        ...details,
+        status: null,
+        reason: null,
+        processedAt: new Date(),
+      },
+      create: {
+        messageId: message.id,
+        channelId: message.channelId,
+        ...details,
+      },
+    });
+
+    // Until the startup catch-up is done, moving the checkpoint forward would hide the missed messages
+    if (this.caughtUp) {
+      await this.updateCheckpoint(message.channelId, message.id);
+    }
+
+    let outcome: NotificationOutcome;
+
+    if (!result.success) {
+      logger.warn(`Rejected notification ${message.url}: ${result.issues.map(({ message }) => message).join(', ')}`);
+
+      outcome = {
+        status: 'rejected',
+        reason: result.issues.map(({ message }) => message).join('\n'),
+      };
+    } else {
+      try {
+        outcome = await this.handlePayload(result.data);
+      } catch (err) {
+        logger.error(`Unable to handle notification ${message.url}:`, (err as Error).message);
+
+        outcome = {
+          status: 'failed',
+          reason: `${(err as Error).message}\nIt will be retried on the next catch-up, or with \`/backfill-notifications\`.`,
+        };
+      }
+    }
+
+    await prisma.processedNotifications.update({
+      where: {
+        id: record.id,
+      },
+      data: {
+        status: outcome.status,
+        reason: outcome.reason,
+      },
+    });
+
+    await this.reportOutcome(message, outcome);
+
+    return true;
+  }
+
+  private static async handlePayload(purchaseData: TebexWebhookJsonPayload): Promise<NotificationOutcome> {
+    if (purchaseData.action !== 'purchase') {
+      logger.info(`Handling ${purchaseData.action} notification for ${purchaseData.transaction}`);
+
+      const known = await PurchaseManager.revokeTransaction(purchaseData.transaction, purchaseData.action, purchaseData.packageName);
+
+      return known
+        ? { status: 'accepted', reason: null }
+        : { status: 'ignored', reason: `\`${purchaseData.transaction}\` was never claimed, nothing to revoke` };
+    }
+
+    if (!purchaseData.discordId) {
+      logger.info(`Purchase notification for ${purchaseData.transaction} has no discord id, waiting for a manual claim`);
+      return { status: 'ignored', reason: 'No discord id attached, the buyer has to use /claimrole' };
+    }
+
+    logger.info(`Handling purchase notification for ${purchaseData.transaction}`);
+
+    const notLinked = await PurchaseManager.autoLinkPurchase(purchaseData);
+
+    return notLinked
+      ? { status: 'ignored', reason: notLinked }
+      : { status: 'accepted', reason: null };
+  }
+
+  /**
+   * Reacts to a notification with its outcome, and replies with the reason when it wasn't accepted.
+   */
+  private static async reportOutcome(message: Message, outcome: NotificationOutcome) {
+    try {
+      // A retried notification no longer carries its failure
+      await message.reactions.cache.get(OUTCOME_REACTIONS.failed)?.users.remove(message.client.user.id);
+
+      await message.react(OUTCOME_REACTIONS[outcome.status]);
+
+      if (outcome.status !== 'accepted' && outcome.reason) {
+        await message.reply({
+          content: `**${OUTCOME_LABELS[outcome.status]}:**\n${outcome.reason}`.slice(0, 2000),
+          allowedMentions: { parse: [], repliedUser: false },
+        });
+      }
+    } catch (err) {
+      logger.warn(`Unable to report the outcome of ${message.url}, check the bot's permissions:`, (err as Error).message);
+    }
+  }
+
+  /**
+   * Pages backwards through the payment log channel up to the stored checkpoint and processes
+   * every notification posted in the meantime, oldest first, along with the ones that failed before.
+   * Without a checkpoint the channel's history is only replayed on request, otherwise the checkpoint
+   * starts at the latest message.
+   *
+   * @param client discord client
+   * @param maxMessages maximum amount of messages to fetch
+   * @param replayHistory process the channel's history when no checkpoint was stored yet
+   */
+  public static async catchUp(client: DiscordClient, maxMessages: number = DEFAULT_MAX_MESSAGES, replayHistory: boolean = false): Promise<CatchUpResult | null> {
+    if (this.catchingUp) {
+      logger.warn('A catch-up is already in progress, skipping.');
+      return null;
+    }
+
+    const channelId = SettingsManager.get<string>('payment_log_channel');
+    if (!channelId) return null;
+
+    const channel = await client.channels.fetch(channelId).catch(() => null) as TextChannel | null;
+
+    if (!channel || !channel.isTextBased()) {
+      logger.error(`Unable to catch up on notifications, payment_log_channel (${channelId}) is invalid.`);
+      return null;
+    }
+
+    this.catchingUp = true;
+
+    try {
+      const checkpoint = await prisma.notificationCheckpoints.findUnique({
+        where: {
+          channelId,
+        },
+      });
+
+      if (!checkpoint && !replayHistory) {
+        const latest = (await channel.messages.fetch({ limit: 1 })).first();
+
+        if (latest) await this.updateCheckpoint(channelId, latest.id);
+
+        this.caughtUp = true;
+
+        logger.info('No notification checkpoint stored, starting from the latest message. Use /backfill-notifications to replay older ones.');
+
+        return { fetched: 0, processed: 0, skipped: 0, truncated: false };
+      }
+
+      const checkpointId = checkpoint ? BigInt(checkpoint.messageId) : null;
+      const messages: Message[] = [];
+
+      let before: string | undefined;
+      let reachedCheckpoint = false;
+
+      while (!reachedCheckpoint && messages.length < maxMessages) {
+        const page: Collection<string, Message> = await channel.messages.fetch({
+          limit: Math.min(100, maxMessages - messages.length),
+          before,
+        });
+
+        if (page.size === 0) break;
+
+        for (const message of page.values()) {
+          if (checkpointId !== null && BigInt(message.id) <= checkpointId) {
+            reachedCheckpoint = true;
+            break;
+          }
+
+          messages.push(message);
+        }
+
+        before = page.last()?.id;
+      }
+
+      // Messages between the checkpoint and the oldest fetched one were never looked at
+      const truncated = checkpointId !== null && !reachedCheckpoint && messages.length >= maxMessages;
+
+      const retries = await this.fetchFailedNotifications(channel, messages);
+
+      messages.push(...retries);
+      messages.sort((a, b) => (BigInt(a.id) < BigInt(b.id) ? -1 : 1));
+
+      let processed = 0;
+      for (const message of messages) {
+        try {
+          if (await this.processMessage(message)) processed++;
+        } catch (err) {
+          logger.error(`Unable to process notification ${message.url}:`, (err as Error).message);
+        }
+      }
+
+      if (truncated) {
+        // The checkpoint stays put, and live notifications won't move it, until a larger catch-up closes the gap
+        logger.warn(`Catch-up stopped after ${maxMessages} messages without reaching the checkpoint, older notifications were not processed.`);
+
+        await this.alertStaff(
+          client,
+          'Payment notifications left unprocessed',
+          `The catch-up went through ${maxMessages} messages without reaching the last processed notification. ` +
+          'Older notifications were not processed, run `/backfill-notifications` with a higher limit.',
+        );
+      } else {
+        if (messages.length > 0) {
+          await this.updateCheckpoint(channelId, messages[messages.length - 1].id);
+        }
+
+        this.caughtUp = true;
+      }
+
+      logger.info(`Caught up on ${processed} notification(s) out of ${messages.length} message(s)`);
+
+      return {
+        fetched: messages.length,
+        processed,
+        skipped: messages.length - processed,
+        truncated,
+      };
+    } finally {
+      this.catchingUp = false;
+    }
+  }
+
+  /**
+   * @param fetched messages already fetched by the catch-up
+   * @returns notifications whose handling failed, which aren't part of the fetched messages
+   */
+  private static async fetchFailedNotifications(channel: TextChannel, fetched: Message[]): Promise<Message[]> {
+    const failed = await prisma.processedNotifications.findMany({
+      where: {
+        channelId: channel.id,
+        status: 'failed',
+        messageId: {
+          notIn: fetched.map(({ id }) => id),
+        },
+      },
+      select: {
+        messageId: true,
+      },
+    });
+
+    const messages: Message[] = [];
+
+    for (const { messageId } of failed) {
+      const message = await channel.messages.fetch(messageId).catch(() => null);
+
+      if (message) {
+        messages.push(message);
+      } else {
+        logger.warn(`Failed notification ${messageId} no longer exists, it can't be retried.`);
+      }
+    }
+
+    return messages;
+  }
+
+  private static async alertStaff(client: DiscordClient, title: string, description: string) {
+    const embed = new EmbedBuilder()
+      .setTitle(title)
+      .setColor(0xFEE75C)
+      .setDescription(description)
+      .setTimestamp();
+
+    await PostStaffLog(client, embed, 'payment log alert');
+  }
+
+  private static async updateCheckpoint(channelId: string, messageId: string) {
+    const checkpoint = await prisma.notificationCheckpoints.findUnique({
+      where: {
+        channelId,
+      },
+    });
+
+    if (checkpoint && BigInt(checkpoint.messageId) >= BigInt(messageId)) return;
+
+    await prisma.notificationCheckpoints.upsert({
+      where: {
+        channelId,
+      },
+      update: {
+        messageId,
+      },
+      create: {
+        channelId,
+        messageId,
+      },
+    });
+  }
+}
+
+export default PaymentLogManager;
@@ -0,0 +1,295 @@
+import { DiscordClient, ErasureSummary } from "@types";
+import Logger from "../utils/logger";
+import env from "../utils/config";
+import SettingsManager from "./settings_handler";
+import PurchaseManager from "./purchase_handler";
+import AuditLogManager from "./audit_handler";
+import { prisma } from "../utils/prisma";
+
+const logger = new Logger('Privacy');
+
+// Replaces the discord ids and names of erased users in the records that are kept
+export const ERASED_USER = 'erased';
+
+class PrivacyManager {
+  private static discordClient: DiscordClient;
+
+  public static setDiscordClient(client: DiscordClient) {
+    this.discordClient = client;
+  }
+
+  /**
+   * Gathers every record tied to a discord user, for data access requests.
+   *
+   * @param discordId discord id of the user
+   */
+  public static async collect(discordId: string) {
+    const customer = await prisma.customers.findUnique({
+      where: {
+        discordId,
+      },
+      include: {
+        customerDevelopers: true,
+        transactions: {
+          include: {
+            transactionPackages: true,
+          },
+        },
+      },
+    });
+
+    const [developerOf, developerInvites, tickets, ticketMemberships, ticketMessages, transfers, claimAttempts, blacklist, auditLog] = await Promise.all([
+      prisma.customerDevelopers.findMany({ where: { discordId } }),
+      prisma.developerInvites.findMany({
+        where: {
+          OR: [
+            { discordId },
+            { invitedBy: discordId },
+          ],
+        },
+      }),
+      prisma.tickets.findMany({ where: { userId: discordId } }),
+      prisma.ticketMembers.findMany({ where: { userId: discordId } }),
+      prisma.ticketMessages.findMany({ where: { authorId: discordId } }),
+      prisma.purchaseTransfers.findMany({
+        where: {
+          OR: [
+            { fromDiscordId: discordId },
+            { toDiscordId: discordId },
+          ],
+        },
+      }),
+      prisma.claimAttempts.findMany({ where: { discordId } }),
+      prisma.blacklist.findMany({ where: { type: 'discord_id', value: discordId } }),
+      prisma.auditLog.findMany({
+        where: {
+          OR: [
+            { actorId: discordId },
+            { targetId: discordId },
+          ],
+        },
+      }),
+    ]);
+
+    return {
+      generatedAt: new Date().toISOString(),
+      discordId,
+      customer,
+      developerOf,
+      developerInvites,
+      tickets,
+      ticketMemberships,
+      ticketMessages,
+      transfers,
+      claimAttempts,
+      blacklist,
+      auditLog,
+    };
+  }
+
+  /**
+   * Erases a discord user's data. Transactions are kept for refunds and chargebacks but detached from
+   * the user, with the purchaser's name and email removed. Their roles, developers and invitations
+   * are removed, the records kept for history are anonymized. Blacklist entries are kept.
+   *
+   * @param discordId discord id of the user
+   * @param actorId discord id of the staff member erasing the data
+   * @returns summary, or a message when the user still has an open ticket or the erasure failed
+   */
+  public static async erase(discordId: string, actorId: string): Promise<ErasureSummary | string> {
+    const openTickets = await prisma.tickets.count({
+      where: {
+        userId: discordId,
+        closedAt: null,
+      },
+    });
+
+    if (openTickets > 0) return `<@${discordId}> still has ${openTickets} open ticket(s), close them before erasing their data.`;
+
+    const customer = await prisma.customers.findUnique({
+      where: {
+        discordId,
+      },
+      include: {
+        customerDevelopers: true,
+      },
+    });
+
+    const developerOf = await prisma.customerDevelopers.count({ where: { discordId } });
+
+    // Roles are removed while the records they were granted from still exist
+    await this.removeDeveloperRoles([
+      ...(customer?.customerDevelopers.map(({ discordId: developerId }) => developerId) ?? []),
+      ...(developerOf > 0 ? [discordId] : []),
+    ]);
+
+    if (customer) {
+      await PurchaseManager.revokeCustomerRoles(discordId, 'Customer data erased')
+        .catch((err) => logger.error(`Unable to remove the roles of ${discordId}:`, (err as Error).message));
+    }
+
+    let summary: ErasureSummary;
+
+    try {
+      summary = await this.eraseRecords(discordId, customer?.id ?? null);
+    } catch (err) {
+      logger.error(`Unable to erase the data of ${discordId}:`, (err as Error).message);
+      return `Unable to erase the data of <@${discordId}>, no records were erased but their roles may have been removed.`;
+    }
+
+    await AuditLogManager.record({
+      action: 'erase',
+      actorId,
+      targetId: ERASED_USER,
+      reason: `Data erased, ${summary.transactions} transaction(s) kept anonymized`,
+    });
+
+    logger.info(`Data of a user was erased by ${actorId}, ${summary.transactions} transaction(s) kept anonymized`);
+
+    return summary;
+  }
+
+  /**
+   * Erases or anonymizes every record tied to a user, in a single database transaction.
+   */
+  private static eraseRecords(discordId: string, customerId: number | null): Promise<ErasureSummary> {
+    return prisma.$transaction(async (tx) => {
+      const result: ErasureSummary = {
+        transactions: 0,
+        developers: 0,
+        tickets: 0,
+        ticketMessages: 0,
+        transfers: 0,
+        claimAttempts: 0,
+        auditEntries: 0,
+        blacklistKept: 0,
+      };
+
+      result.developers = (await tx.customerDevelopers.deleteMany({
+        where: {
+          OR: [
+            { discordId },
+            ...(customerId ? [{ customerId }] : []),
+          ],
+        },
+      })).count;
+
+      await tx.developerInvites.deleteMany({
+        where: {
+          OR: [
+            { discordId },
+            { invitedBy: discordId },
+            ...(customerId ? [{ customerId }] : []),
+          ],
+        },
+      });
+
+      if (customerId) {
+        result.transactions = (await tx.transactions.updateMany({
+          where: {
+            customerId,
+          },
+          data: {
+            customerId: null,
+            purchaserName: ERASED_USER,
+            email: null,
+            erasedAt: new Date(),
+          },
+        })).count;
+
+        await tx.customers.delete({ where: { id: customerId } });
+      }
+
+      result.tickets = (await tx.tickets.updateMany({
+        where: {
+          userId: discordId,
+        },
+        data: {
+          userId: ERASED_USER,
+          userUsername: ERASED_USER,
+          userDisplayName: ERASED_USER,
+        },
+      })).count;
+
+      await tx.ticketMembers.deleteMany({ where: { userId: discordId } });
+
+      result.ticketMessages = (await tx.ticketMessages.updateMany({
+        where: {
+          authorId: discordId,
+        },
+        data: {
+          authorId: ERASED_USER,
+          displayName: ERASED_USER,
+          messageId: null,
+          avatar: null,
+          content: null,
+          originalContent: null,
+          attachments: null,
+        },
+      })).count;
+
+      const transfersFrom = await tx.purchaseTransfers.updateMany({ where: { fromDiscordId: discordId }, data: { fromDiscordId: ERASED_USER } });
+      const transfersTo = await tx.purchaseTransfers.updateMany({ where: { toDiscordId: discordId }, data: { toDiscordId: ERASED_USER } });
+
+      result.transfers = transfersFrom.count + transfersTo.count;
+
+      await tx.purchaseTransfers.updateMany({ where: { reviewedBy: discordId }, data: { reviewedBy: ERASED_USER } });
+      await tx.purchaseTransfers.updateMany({ where: { revertedBy: discordId }, data: { revertedBy: ERASED_USER } });
+
+      // Reasons may mention the user, e.g. "Transferred from <id>", whoever the entry is about
+      const transferReasons = await tx.purchaseTransfers.findMany({
+        where: { reason: { contains: discordId } },
+        select: { id: true, reason: true },
+      });
+
+      for (const { id, reason } of transferReasons) {
+        await tx.purchaseTransfers.update({ where: { id }, data: { reason: this.scrub(reason, discordId) } });
+      }
+
+      result.claimAttempts = (await tx.claimAttempts.deleteMany({ where: { discordId } })).count;
+
+      await tx.purchaseSearches.deleteMany({ where: { OR: [{ discordId }, { staffId: discordId }] } });
+
+      const actorEntries = await tx.auditLog.updateMany({ where: { actorId: discordId }, data: { actorId: ERASED_USER } });
+      const targetEntries = await tx.auditLog.updateMany({ where: { targetId: discordId }, data: { targetId: ERASED_USER } });
+
+      const auditReasons = await tx.auditLog.findMany({
+        where: { reason: { contains: discordId } },
+        select: { id: true, reason: true },
+      });
+
+      for (const { id, reason } of auditReasons) {
+        await tx.auditLog.update({ where: { id }, data: { reason: this.scrub(reason, discordId) } });
+      }
+
+      result.auditEntries = actorEntries.count + targetEntries.count;
+
+      result.blacklistKept = await tx.blacklist.count({ where: { type: 'discord_id', value: discordId } });
+
+      return result;
+    });
+  }
+
+  /**
+   * Replaces every mention of a discord id in a free text, leaving longer ids containing it untouched.
+   */
+  private static scrub(text: string | null, discordId: string): string | null {
+    return text?.replace(new RegExp(`(?<!\\d)${discordId}(?!\\d)`, 'g'), ERASED_USER) ?? null;
+  }
+
+  private static async removeDeveloperRoles(discordIds: string[]) {
+    if (discordIds.length === 0) return;
+
+    const devRoleId = SettingsManager.get<string>('customers_dev_role') as string;
+    const guild = await this.discordClient.guilds.fetch(env.MAIN_GUILD_ID);
+
+    for (const discordId of discordIds) {
+      const member = await guild.members.fetch(discordId).catch(() => null);
+
+      await member?.roles.remove(devRoleId, 'Customer data erased')
+        .catch((err) => logger.error(`Unable to remove developer role from ${discordId}:`, (err as Error).message));
+    }
+  }
+}
+
+export default PrivacyManager;
@@ -1,8 +1,12 @@
-import { DiscordClient } from "@types";
+import { ActivePackage, CustomerPackage, DiscordClient, PurchaseState, TebexPayment, TebexPurchasePayload } from "@types";
+import { GuildMember } from "discord.js";
 import Logger from "../utils/logger";
 import env from "../utils/config";
 import SettingsManager from "../handlers/settings_handler";
 import { prisma } from "../utils/prisma";
+import tebexHandler from "./tebex_handler";
+import BlacklistManager from "./blacklist_handler";
+import AuditLogManager, { SYSTEM_ACTOR } from "./audit_handler";
 
 const logger = new Logger('Purchase Manager');
 
@@ -66,9 +70,902 @@ class PurchaseManager {
     return createdCustomer.id;
   }
 
+  /**
+   * Flags a transaction as refunded or chargebacked and revokes the owner's access if it was
+   * their last active purchase. Used by both the discord notifications and the tebex webhooks.
+   * When a package is given only that package is flagged, the transaction itself is flagged once
+   * none of its packages are left.
+   *
+   * @param transactionId tebex transaction id
+   * @param action type of revocation
+   * @param packageName package the notification was fired for, the whole transaction if omitted
+   * @param revokedBy staff member revoking the transaction by hand and their reason, automated otherwise
+   * @returns {boolean} the transaction is known to the bot
+   */
+  public static async revokeTransaction(
+    transactionId: string,
+    action: 'refund' | 'chargeback',
+    packageName?: string,
+    revokedBy?: { actorId: string; reason: string },
+  ): Promise<boolean> {
+    tebexHandler.invalidatePurchase(transactionId);
+
+    const purchaseListing = await prisma.transactions.findUnique({
+      where: {
+        tbxId: transactionId,
+      },
+      include: {
+        customer: true,
+        transactionPackages: true,
+      }
+    });
+
+    if (!purchaseListing) return false;
+
+    const flag = action === 'chargeback'
+      ? { chargeback: 1 }
+      : { refund: 1 };
+
+    const revokedPackage = packageName
+      ? purchaseListing.transactionPackages.find(({ package: name }) => name === packageName)
+      : undefined;
+
+    const remainingPackages = revokedPackage
+      ? purchaseListing.transactionPackages.filter(({ id, refund, chargeback }) => id !== revokedPackage.id && refund !== 1 && chargeback !== 1)
+      : [];
+
+    if (revokedPackage && remainingPackages.length > 0) {
+      await prisma.transactionPackages.update({
+        where: {
+          id: revokedPackage.id,
+        },
+        data: flag,
+      });
+
+      logger.info(`Package '${revokedPackage.package}' of ${transactionId} flagged as ${action}, ${remainingPackages.length} package(s) left active`);
+    } else {
+      await prisma.transactions.update({
+        where: {
+          tbxId: transactionId,
+        },
+        data: {
+          ...flag,
+          transactionPackages: {
+            updateMany: {
+              where: revokedPackage ? { id: revokedPackage.id } : {},
+              data: flag,
+            },
+          },
+        },
+      });
+    }
+
+    const scope = revokedPackage ? `Package: ${revokedPackage.package}` : 'Whole transaction';
+
+    await AuditLogManager.record({
+      action,
+      actorId: revokedBy?.actorId ?? SYSTEM_ACTOR,
+      targetId: purchaseListing.customer?.discordId,
+      tbxId: transactionId,
+      reason: revokedBy ? `${scope}, revoked by staff: ${revokedBy.reason}` : scope,
+    });
+
+    if (action === 'chargeback') {
+      await BlacklistManager.recordChargeback(transactionId)
+        .catch(err => logger.error('Unable to blacklist the chargeback of', transactionId, 'err:', err));
+    }
+
+    if (purchaseListing.customer) {
+      await this.checkCustomerPurchases(purchaseListing.customer.id);
+    }
+
+    return true;
+  }
+
+  /**
+   * Clears the chargeback flag of a transaction, i.e. when a dispute is closed in the seller's favour.
+   * The customer can then claim their role again, blacklist entries created by the chargeback are lifted.
+   *
+   * @param transactionId tebex transaction id
+   * @returns {boolean} the transaction is known to the bot
+   */
+  public static async restoreChargeback(transactionId: string): Promise<boolean> {
+    tebexHandler.invalidatePurchase(transactionId);
+
+    const { count } = await prisma.transactions.updateMany({
+      where: {
+        tbxId: transactionId,
+      },
+      data: {
+        chargeback: 0,
+      },
+    });
+
+    await prisma.transactionPackages.updateMany({
+      where: {
+        tbxId: transactionId,
+      },
+      data: {
+        chargeback: 0,
+      },
+    });
+
+    await BlacklistManager.clearChargeback(transactionId);
+
+    return count > 0;
+  }
+
+  /**
+   * Creates or updates a transaction from the payment details returned by tebex, along with its packages.
+   * Refund and chargeback flags are only ever raised here, never cleared. Tebex reports the status of the
+   * whole payment, so every package of a refunded or chargebacked payment gets flagged.
+   *
+   * @param transactionId tebex transaction id
+   * @param payment payment details from tebex's API
+   * @param customerId internal customer id to link the transaction to, only used on creation
+   */
+  public static async savePayment(transactionId: string, payment: TebexPayment, customerId?: number | null) {
+    const details = {
+      purchaserName: payment.player.name,
+      purchaserUuid: payment.player.uuid,
+      paymentId: payment.id,
+      amount: payment.amount,
+      currency: payment.currency.iso_4217,
+      gateway: payment.gateway?.name ?? null,
+      creatorCode: payment.creator_code || null,
+      email: payment.email,
+      paymentDate: isNaN(Date.parse(payment.date)) ? null : new Date(payment.date),
+    };
+
+    const flags = {
+      ...(payment.status === 'Refund' ? { refund: 1 } : {}),
+      ...(payment.status === 'Chargeback' ? { chargeback: 1 } : {}),
+    };
+
+    const stored = await prisma.transactions.findUnique({
+      where: {
+        tbxId: transactionId,
+      },
+      select: {
+        erasedAt: true,
+      },
+    });
+
+    const existed = stored !== null;
+
+    // The purchaser's name and email are never restored once erased on their request
+    const { purchaserName, email, ...financialDetails } = details;
+
+    const transaction = await prisma.transactions.upsert({
+      where: {
+        tbxId: transactionId,
+      },
+      update: {
+        ...(stored?.erasedAt ? financialDetails : { ...financialDetails, purchaserName, email }),
+        ...flags,
+      },
+      create: {
+        tbxId: transactionId,
+        customerId: customerId ?? null,
+        ...details,
+        ...flags,
+      },
+    });
+
+    const existingPackages = await prisma.transactionPackages.findMany({
+      where: {
+        tbxId: transactionId,
+      },
+    });
+
+    for (const { id: packageId, name, quantity } of payment.packages) {
+      const existing = existingPackages.find((p) => p.packageId === packageId)
+        ?? existingPackages.find((p) => p.packageId === null && p.package === name);
+
+      if (existing) {
+        await prisma.transactionPackages.update({
+          where: {
+            id: existing.id,
+          },
+          data: {
+            package: name,
+            packageId,
+            quantity,
+            ...flags,
+          },
+        });
+      } else {
+        await prisma.transactionPackages.create({
+          data: {
+            tbxId: transactionId,
+            package: name,
+            packageId,
+            quantity,
+            ...flags,
+          },
+        });
+      }
+    }
+
+    if (!existed) {
+      return {
+        ...transaction,
+        expiresAt: await this.applyAccessDuration(transactionId),
+      };
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Computes the access expiry of a transaction from the durations configured for its packages,
+   * access is permanent unless every package had a duration when the purchase was paid. When the
+   * customer already has time-limited access to one of the packages, the new purchase is treated
+   * as a renewal and extends it instead of overlapping it.
+   *
+   * @param transactionId tebex transaction id
+   * @returns expiry date, null for permanent access
+   */
+  public static async applyAccessDuration(transactionId: string): Promise<Date | null> {
+    const transaction = await prisma.transactions.findUnique({
+      where: {
+        tbxId: transactionId,
+      },
+      include: {
+        transactionPackages: true,
+      },
+    });
+
+    if (!transaction || transaction.transactionPackages.length === 0) return null;
+
+    const paidAt = transaction.paymentDate ?? transaction.createdAt;
+
+    // Durations only apply to purchases paid once they were configured, older ones stay permanent
+    const durations = await prisma.packageDurations.findMany({
+      where: {
+        addedAt: { lte: paidAt },
+      },
+      select: {
+        package: true,
+        packageId: true,
+        days: true,
+      },
+    });
+
+    let days = 0;
+    for (const transactionPackage of transaction.transactionPackages) {
+      const duration = durations.find((mapping) => this.isMappingActive(mapping, [transactionPackage]));
+
+      if (!duration) {
+        days = 0;
+        break;
+      }
+
+      days = Math.max(days, duration.days * Math.max(1, transactionPackage.quantity));
+    }
+
+    if (days === 0) {
+      if (transaction.expiresAt) {
+        await prisma.transactions.update({
+          where: { id: transaction.id },
+          data: { expiresAt: null },
+        });
+      }
+
+      return null;
+    }
+
+    let start = paidAt;
+
+    if (transaction.customerId) {
+      const previousPurchases = await prisma.transactions.findMany({
+        where: {
+          customerId: transaction.customerId,
+          id: { lt: transaction.id },
+          refund: 0,
+          chargeback: 0,
+          expiresAt: { gt: start },
+        },
+        include: {
+          transactionPackages: true,
+        },
+      });
+
+      for (const previous of previousPurchases) {
+        const renewed = previous.transactionPackages.some((previousPackage) => (
+          this.isMappingActive(previousPackage, transaction.transactionPackages)
+        ));
+
+        if (renewed && previous.expiresAt! > start) start = previous.expiresAt!;
+      }
+    }
+
+    const expiresAt = new Date(start.getTime() + days * 24 * 60 * 60 * 1000);
+
+    if (transaction.expiresAt?.getTime() === expiresAt.getTime()) return expiresAt;
+
+    await prisma.transactions.update({
+      where: {
+        id: transaction.id,
+      },
+      data: {
+        expiresAt,
+        reminderSentAt: null,
+        expiryHandledAt: null,
+      },
+    });
+
+    return expiresAt;
+  }
+
+  /**
+   * Whether a purchase still grants access: not refunded, chargebacked or expired, with at least one
+   * package left that wasn't refunded or chargebacked.
+   */
+  public static isPurchaseActive(purchase: PurchaseState, now: Date = new Date()): boolean {
+    return purchase.refund !== 1 && purchase.chargeback !== 1 &&
+      (purchase.expiresAt === null || purchase.expiresAt > now) && (
+        purchase.transactionPackages.length === 0 ||
+        purchase.transactionPackages.some((p) => p.refund !== 1 && p.chargeback !== 1)
+      );
+  }
+
+  /**
+   * Creates a transaction from a tebex purchase notification and links it to the buyer's discord account.
+   * Payment details are fetched from tebex, falling back on the notification's content if unavailable.
+   * The customer role and package roles are granted if the buyer is on the server.
+   * Blacklisted buyers, by discord id, purchaser uuid or email, get the transaction saved but not linked.
+   *
+   * @param payload purchase notification, must carry a discord id
+   * @returns reason the transaction wasn't linked to the buyer, null once linked
+   */
+  public static async autoLinkPurchase(payload: TebexPurchasePayload): Promise<string | null> {
+    const { transaction: transactionId, discordId } = payload;
+
+    if (!discordId) return 'No discord id attached, the buyer has to use /claimrole';
+
+    if (!/^\d{17,20}$/.test(discordId)) {
+      logger.warn(`Purchase ${transactionId} carries an invalid discord id (${discordId}), not linking it`);
+      return `\`${discordId}\` is not a valid discord id`;
+    }
+
+    const existing = await prisma.transactions.findUnique({
+      where: {
+        tbxId: transactionId,
+      },
+      select: {
+        erasedAt: true,
+        customer: {
+          select: {
+            discordId: true,
+          },
+        },
+      },
+    });
+
+    if (existing?.erasedAt) {
+      logger.warn(`Purchase ${transactionId} belongs to an erased user, not linking it to ${discordId}`);
+      return `\`${transactionId}\` belongs to a user whose data was erased`;
+    }
+
+    if (existing?.customer && existing.customer.discordId !== discordId) {
+      logger.warn(`Purchase ${transactionId} is already claimed by ${existing.customer.discordId}, not linking it to ${discordId}`);
+      return `\`${transactionId}\` is already claimed by another member`;
+    }
+
+    const payment = await tebexHandler.verifyPurchase(transactionId);
+
+    if (payment.success) {
+      await this.savePayment(transactionId, payment.data);
+    } else {
+      logger.warn(`Unable to fetch ${transactionId} from tebex (${payment.error}), using the notification's data`);
+
+      await prisma.transactions.upsert({
+        where: {
+          tbxId: transactionId,
+        },
+        update: {},
+        create: {
+          tbxId: transactionId,
+          purchaserName: payload.purchaserName || payload.username,
+          purchaserUuid: payload.purchaserUuid ?? '',
+          email: payload.email || null,
+        },
+      });
+
+      await prisma.transactionPackages.upsert({
+        where: {
+          tbxId_package: {
+            tbxId: transactionId,
+            package: payload.packageName,
+          },
+        },
+        update: {},
+        create: {
+          tbxId: transactionId,
+          package: payload.packageName,
+        },
+      });
+    }
+
+    const blacklisted = await BlacklistManager.check(
+      { discordId },
+      payment.success
+        ? { purchaserUuid: payment.data.player.uuid, email: payment.data.email }
+        : { purchaserUuid: payload.purchaserUuid, email: payload.email },
+    );
+
+    if (blacklisted) {
+      const buyer = await this.discordClient.users.fetch(discordId).catch(() => null);
+
+      if (buyer) {
+        await BlacklistManager.alertStaff(blacklisted, buyer, `get the purchase \`${transactionId}\` linked through discord login on checkout`);
+      } else {
+        logger.warn(`Blacklisted ${blacklisted.type} (${blacklisted.value}) matched for ${discordId}, not linking ${transactionId}`);
+      }
+
+      return `The buyer is blacklisted, \`${transactionId}\` was not linked`;
+    }
+
+    const customerId = await this.getCustomerId(discordId);
+
+    const transaction = await prisma.transactions.update({
+      where: {
+        tbxId: transactionId,
+      },
+      data: {
+        customerId,
+      },
+    });
+
+    await this.applyAccessDuration(transactionId);
+
+    await AuditLogManager.record({
+      action: 'claim',
+      actorId: SYSTEM_ACTOR,
+      targetId: discordId,
+      tbxId: transactionId,
+      reason: 'Linked through discord login on checkout',
+    });
+
+    if (transaction.refund === 1 || transaction.chargeback === 1) {
+      logger.info(`Purchase ${transactionId} was linked to ${discordId} but is no longer active, no roles granted`);
+      return null;
+    }
+
+    const guild = await this.discordClient.guilds.fetch(env.MAIN_GUILD_ID);
+    const member = await guild.members.fetch(discordId).catch(() => null);
+
+    if (!member) {
+      logger.info(`Purchase ${transactionId} was linked to ${discordId}, who is not on the server yet`);
+      return null;
+    }
+
+    const customerRole = SettingsManager.get('customer_role') as string;
+
+    await member.roles.add(customerRole, 'Purchase linked through discord login')
+      .catch(err => {
+        logger.error(
+          'Unable to grant customer role to',
+          discordId,
+          'err:', err
+        );
+      });
+
+    await this.grantPackageRoles(member, customerId);
+
+    logger.success(`Purchase ${transactionId} was automatically linked to ${member.user.username} (${discordId})`);
+
+    return null;
+  }
+
+  /**
+   * Re-grants the customer, package and developer roles of a member who rejoined the server,
+   * provided the purchases they're linked to are still active.
+   *
+   * @param member guild member who joined
+   * @returns list of restored role ids
+   */
+  public static async restoreMemberRoles(member: GuildMember): Promise<string[]> {
+    const customerId = await this.getCustomerId(member.id, true);
+
+    const developerOf = await prisma.customerDevelopers.findMany({
+      where: {
+        discordId: member.id,
+      },
+      select: {
+        customerId: true,
+      },
+    });
+
+    if (!customerId && developerOf.length === 0) return [];
+
+    const blacklisted = await BlacklistManager.check({ discordId: member.id });
+
+    if (blacklisted) {
+      await BlacklistManager.alertStaff(blacklisted, member.user, 'get their roles back after rejoining the server');
+      return [];
+    }
+
+    const restored: string[] = [];
+
+    if (customerId && await this.checkCustomerPurchases(customerId)) {
+      const customerRole = SettingsManager.get('customer_role') as string;
+
+      await member.roles.add(customerRole, 'Customer rejoined the server')
+        .then(() => restored.push(customerRole))
+        .catch(err => {
+          logger.error(
+            'Unable to restore customer role to',
+            member.id,
+            'err:', err
+          );
+        });
+
+      restored.push(...await this.grantPackageRoles(member, customerId));
+    }
+
+    for (const { customerId: ownerId } of developerOf) {
+      // The owner may have left the server, which makes the revocation part of the check throw
+      const ownerActive = await this.checkCustomerPurchases(ownerId).catch(() => false);
+      if (!ownerActive) continue;
+
+      const customersDevRole = SettingsManager.get('customers_dev_role') as string;
+
+      await member.roles.add(customersDevRole, 'Developer rejoined the server')
+        .then(() => restored.push(customersDevRole))
+        .catch(err => {
+          logger.error(
+            'Unable to restore customers developer role to',
+            member.id,
+            'err:', err
+          );
+        });
+
+      break;
+    }
+
+    if (restored.length > 0) {
+      await AuditLogManager.record({
+        action: 'role_restore',
+        actorId: SYSTEM_ACTOR,
+        targetId: member.id,
+        reason: `Rejoined the server, restored: ${restored.map((roleId) => `<@&${roleId}>`).join(', ')}`,
+      });
+
+      logger.success(`Restored ${restored.length} role(s) to ${member.user.username} (${member.id}) after rejoining`);
+    }
+
+    return restored;
+  }
+
+  /**
+   * Lists the packages of a customer's transactions that haven't been refunded or chargebacked.
+   *
+   * @param customerId internal customer id
+   */
+  public static async getActivePackages(customerId: number): Promise<ActivePackage[]> {
+    return await prisma.transactionPackages.findMany({
+      where: {
+        refund: 0,
+        chargeback: 0,
+        transaction: {
+          customerId,
+          refund: 0,
+          chargeback: 0,
+          OR: [
+            { expiresAt: null },
+            { expiresAt: { gt: new Date() } },
+          ],
+        },
+      },
+      select: {
+        package: true,
+        packageId: true,
+        quantity: true,
+      },
+    });
+  }
+
+  /**
+   * Number of developers a customer may link. Packages with a seat allowance add up across active
+   * purchases, `max_developers` applies when they grant less or none are configured.
+   *
+   * @param customerId internal customer id
+   */
+  public static async getDeveloperSeats(customerId: number): Promise<number> {
+    const baseSeats = SettingsManager.get<number>('max_developers') ?? 0;
+
+    const [activePackages, allowances] = await Promise.all([
+      this.getActivePackages(customerId),
+      prisma.packageSeats.findMany({
+        select: {
+          package: true,
+          packageId: true,
+          seats: true,
+          perQuantity: true,
+        },
+      }),
+    ]);
+
+    let packageSeats = 0;
+    for (const purchased of activePackages) {
+      const allowance = allowances.find((mapping) => this.isMappingActive(mapping, [purchased]));
+      if (!allowance) continue;
+
+      packageSeats += allowance.seats * (allowance.perQuantity === 1 ? purchased.quantity : 1);
+    }
+
+    return Math.max(baseSeats, packageSeats);
+  }
+
+  /**
+   * Removes the most recently added developers, and withdraws pending invitations, once a customer
+   * has more than their seat allowance, i.e. after a partial refund.
+   *
+   * @param customer customer with active purchases
+   */
+  private static async enforceDeveloperSeats(customer: { id: number; discordId: string }) {
+    const seats = await this.getDeveloperSeats(customer.id);
+
+    const developers = await prisma.customerDevelopers.findMany({
+      where: {
+        customerId: customer.id,
+      },
+      orderBy: {
+        addedAt: 'asc',
+      },
+    });
+
+    const overLimit = developers.slice(seats);
+
+    if (overLimit.length > 0) {
+      const customersDevRole = SettingsManager.get('customers_dev_role') as string;
+      const guild = await this.discordClient.guilds.fetch(env.MAIN_GUILD_ID);
+
+      for (const { discordId } of overLimit) {
+        const developerUser = await guild.members.fetch(discordId).catch(() => null);
+
+        if (developerUser) {
+          await developerUser.roles.remove(customersDevRole, 'Developer seats reduced')
+          .catch(err => {
+            logger.error(
+              'Unable to remove customers developer role from',
+              discordId,
+              'err:', err
+            );
+          });
+        }
+      }
+
+      await prisma.customerDevelopers.deleteMany({
+        where: {
+          id: { in: overLimit.map(({ id }) => id) },
+        },
+      });
+
+      for (const { discordId } of overLimit) {
+        await AuditLogManager.record({
+          action: 'developer_remove',
+          actorId: SYSTEM_ACTOR,
+          targetId: discordId,
+          reason: `Customer ${customer.discordId} only has ${seats} developer seat(s) left`,
+        });
+      }
+
+      logger.info(`Removed ${overLimit.length} developer(s) of customer (${customer.id}), over their ${seats} seat(s)`);
+    }
+
+    const pendingInvites = await prisma.developerInvites.findMany({
+      where: {
+        customerId: customer.id,
+        status: 'pending',
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+      select: {
+        id: true,
+      },
+    });
+
+    const freeSeats = Math.max(0, seats - (developers.length - overLimit.length));
+    const overLimitInvites = pendingInvites.slice(freeSeats);
+
+    if (overLimitInvites.length > 0) {
+      await prisma.developerInvites.updateMany({
+        where: {
+          id: { in: overLimitInvites.map(({ id }) => id) },
+        },
+        data: {
+          status: 'cancelled',
+          respondedAt: new Date(),
+        },
+      });
+    }
+  }
+
+  /**
+   * Whether a package role mapping is covered by one of the packages, matched on the tebex
+   * package id when known so that renamed packages keep their roles.
+   */
+  public static isMappingActive(mapping: CustomerPackage, packages: CustomerPackage[]): boolean {
+    return packages.some(({ package: packageName, packageId }) => (
+      mapping.packageId !== null && packageId !== null
+        ? mapping.packageId === packageId
+        : mapping.package === packageName
+    ));
+  }
+
+  /**
+   * Grants a member every role mapped to the packages of their active purchases.
+   *
+   * @param member guild member of the customer
+   * @param customerId internal customer id
+   * @returns list of granted role ids
+   */
+  public static async grantPackageRoles(member: GuildMember, customerId: number): Promise<string[]> {
+    const activePackages = await this.getActivePackages(customerId);
+
+    if (activePackages.length === 0) return [];
+
+    const mappings = await prisma.packageRoles.findMany({
+      select: {
+        package: true,
+        packageId: true,
+        roleId: true,
+      },
+    });
+
+    const roleIds = [...new Set(
+      mappings
+        .filter((mapping) => this.isMappingActive(mapping, activePackages))
+        .map(({ roleId }) => roleId)
+    )].filter((roleId) => !member.roles.cache.has(roleId));
+
+    const granted: string[] = [];
+    for (const roleId of roleIds) {
+      await member.roles.add(roleId, 'Package purchase claimed')
+        .then(() => granted.push(roleId))
+        .catch(err => {
+          logger.error(
+            'Unable to grant package role', roleId,
+            'to', member.id,
+            'err:', err
+          );
+        });
+    }
+
+    return granted;
+  }
+
+  /**
+   * Grants the customer role and package roles of a customer with active purchases, if they're on the server.
+   *
+   * @param discordId discord id of the customer
+   * @param customerId internal customer id
+   * @param reason reason shown in discord's audit log
+   * @returns {boolean} the customer has active purchases
+   */
+  public static async grantCustomerRoles(discordId: string, customerId: number, reason: string): Promise<boolean> {
+    const hasPurchases = await this.checkCustomerPurchases(customerId).catch(() => false);
+
+    if (!hasPurchases) return false;
+
+    const guild = await this.discordClient.guilds.fetch(env.MAIN_GUILD_ID);
+    const member = await guild.members.fetch(discordId).catch(() => null);
+
+    if (!member) return true;
+
+    const customerRole = SettingsManager.get('customer_role') as string;
+
+    await member.roles.add(customerRole, reason)
+      .catch(err => {
+        logger.error(
+          'Unable to grant customer role to',
+          discordId,
+          'err:', err
+        );
+      });
+
+    await this.grantPackageRoles(member, customerId);
+
+    return true;
+  }
+
+  /**
+   * Removes the customer role and every package role from a member, regardless of their purchases.
+   *
+   * @param discordId discord id of the customer
+   * @param reason reason shown in discord's audit log
+   */
+  public static async revokeCustomerRoles(discordId: string, reason: string) {
+    await this.revokeInactivePackageRoles(discordId, []);
+
+    const guild = await this.discordClient.guilds.fetch(env.MAIN_GUILD_ID);
+    const member = await guild.members.fetch(discordId).catch(() => null);
+
+    const customerRole = SettingsManager.get('customer_role') as string;
+
+    if (!member || !member.roles.cache.has(customerRole)) return;
+
+    await member.roles.remove(customerRole, reason);
+
+    await AuditLogManager.record({
+      action: 'customer_revoke',
+      actorId: SYSTEM_ACTOR,
+      targetId: discordId,
+      reason,
+    });
+  }
+
+  /**
+   * Removes the package roles a member holds that aren't covered by one of their active purchases.
+   *
+   * @param discordId discord id of the customer
+   * @param activePackages packages of the customer's active purchases
+   */
+  private static async revokeInactivePackageRoles(discordId: string, activePackages: CustomerPackage[]) {
+    const mappings = await prisma.packageRoles.findMany({
+      select: {
+        package: true,
+        packageId: true,
+        roleId: true,
+      },
+    });
+
+    if (mappings.length === 0) return;
+
+    const allowedRoles = new Set(
+      mappings
+        .filter((mapping) => this.isMappingActive(mapping, activePackages))
+        .map(({ roleId }) => roleId)
+    );
+
+    if (activePackages.length > 0) {
+      allowedRoles.add(SettingsManager.get('customer_role') as string);
+    }
+
+    const guild = await this.discordClient.guilds.fetch(env.MAIN_GUILD_ID);
+    const member = await guild.members.fetch(discordId).catch(() => null);
+
+    if (!member) return;
+
+    const revokedRoles = new Set(
+      mappings
+        .map(({ roleId }) => roleId)
+        .filter((roleId) => !allowedRoles.has(roleId) && member.roles.cache.has(roleId))
+    );
+
+    for (const roleId of [...revokedRoles]) {
+      await member.roles.remove(roleId, 'Package purchase no longer active')
+        .catch(err => {
+          revokedRoles.delete(roleId);
+          logger.error(
+            'Unable to remove package role', roleId,
+            'from', discordId,
+            'err:', err
+          );
+        });
+    }
+
+    if (revokedRoles.size > 0) {
+      logger.info(`Removed ${revokedRoles.size} package role(s) from ${discordId}`);
+
+      await AuditLogManager.record({
+        action: 'package_role_revoke',
+        actorId: SYSTEM_ACTOR,
+        targetId: discordId,
+        reason: `Packages no longer active, removed: ${[...revokedRoles].map((roleId) => `<@&${roleId}>`).join(', ')}`,
+      });
+    }
+  }
+
   /**
    * Checks if a customer has valid / active purchases, if not tries to remove his customer role
    * along with any developers linked to his id. If no entries, active or not, deletes his entry.
+   * Access is computed per package, package roles whose packages are no longer active are always removed.
+   * Developers over the customer's seat allowance are removed as well.
    *
    * @param customerid
    * @returns {boolean} has valid purchases
@@ -97,40 +994,60 @@ class PurchaseManager {
         id: true,
         refund: true,
         chargeback: true,
+        expiresAt: true,
+        transactionPackages: {
+          select: {
+            refund: true,
+            chargeback: true,
+          },
+        },
       },
     });
 
-    let hasActivePurchases;
-    if (purchases.length === 0) {
-      hasActivePurchases = false;
+    const activePackages = await this.getActivePackages(customer.id);
 
-      await prisma.customers.delete({ where: { id: customer.id } });
+    await this.revokeInactivePackageRoles(customer.discordId, activePackages)
+      .catch(err => logger.error('Unable to revoke package roles from', customer.discordId, 'err:', err));
 
-    } else {
-      const activePurchases = purchases.filter(({ chargeback, refund }: { chargeback: number; refund: number }) => (chargeback !== 1 && refund !== 1) );
+    const hasActivePurchases = purchases.some((purchase) => this.isPurchaseActive(purchase));
 
-      hasActivePurchases = activePurchases.length > 0;
-    }
+    if (hasActivePurchases) {
+      await this.enforceDeveloperSeats(customer)
+        .catch(err => logger.error('Unable to enforce the developer seats of', customer.discordId, 'err:', err));
 
-    if (hasActivePurchases) return true;
+      return true;
+    }
 
     const guild = await this.discordClient.guilds.fetch(env.MAIN_GUILD_ID);
 
     if (!guild) throw new Error('MAIN_GUILD_ID did not produce a valid guild object !');
 
-    const customerUser = await guild.members.fetch(customer.discordId);
+    const customerUser = await guild.members.fetch(customer.discordId).catch(() => null);
 
     if (customerUser) {
       const customerRole = SettingsManager.get('customer_role') as string;
 
-      customerUser.roles.remove(customerRole)
+      const hadRole = customerUser.roles.cache.has(customerRole);
+
+      const removed = await customerUser.roles.remove(customerRole)
+      .then(() => true)
       .catch(err => {
         logger.error(
           'Unable to remove customer role from',
           customer.discordId,
           'err:', err
         );
+        return false;
       });
+
+      if (removed && hadRole) {
+        await AuditLogManager.record({
+          action: 'customer_revoke',
+          actorId: SYSTEM_ACTOR,
+          targetId: customer.discordId,
+          reason: 'No active purchases left',
+        });
+      }
     }
 
     const developers = await prisma.customerDevelopers.findMany({
@@ -143,7 +1060,7 @@ class PurchaseManager {
       const customersDevRole = SettingsManager.get('customers_dev_role') as string;
 
       for (const { discordId } of developers) {
-        const developerUser = await guild.members.fetch(discordId);
+        const developerUser = await guild.members.fetch(discordId).catch(() => null);
 
         if (developerUser) {
           await developerUser.roles.remove(customersDevRole)
@@ -160,6 +1077,31 @@ class PurchaseManager {
 
     await prisma.customerDevelopers.deleteMany({ where: { customerId: customer.id }});
 
+    for (const { discordId } of developers) {
+      await AuditLogManager.record({
+        action: 'developer_remove',
+        actorId: SYSTEM_ACTOR,
+        targetId: discordId,
+        reason: `Customer ${customer.discordId} has no active purchases left`,
+      });
+    }
+
+    await prisma.developerInvites.updateMany({
+      where: {
+        customerId: customer.id,
+        status: 'pending',
+      },
+      data: {
+        status: 'cancelled',
+        respondedAt: new Date(),
+      },
+    });
+
+    // Deleted last, its developers reference it
+    if (purchases.length === 0) {
+      await prisma.customers.delete({ where: { id: customer.id } });
+    }
+
     logger.info(`Customer (${customer.id}) no longer has any active purchases`)
 
     return false;
@@ -0,0 +1,399 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, ContainerBuilder, SeparatorBuilder, SeparatorSpacingSize, TextDisplayBuilder } from "discord.js";
+import { Prisma } from "@prisma/client";
+import { PurchaseSearchFilters, PurchaseStatusFilter } from "@types";
+import PurchaseManager from "./purchase_handler";
+import { prisma } from "../utils/prisma";
+import { GetUnixSecondsFromDate } from "../utils/utils";
+
+export const MY_PURCHASES_PAGE_PREFIX = 'my-purchases-page:';
+export const VIEW_PURCHASES_PAGE_PREFIX = 'view-purchases-page:';
+
+const PAGE_SIZE = 5;
+const STAFF_PAGE_SIZE = 8;
+
+// Text displays of a message share a 4000 characters limit
+const TEXT_LIMIT = 3500;
+
+interface ListedTransaction {
+  tbxId: string;
+  chargeback: number;
+  refund: number;
+  createdAt: Date;
+  paymentDate: Date | null;
+  expiresAt: Date | null;
+  transactionPackages: { package: string; quantity: number; chargeback: number; refund: number }[];
+}
+
+// Refunded or chargebacked, in full or for one of the packages
+const REVOKED_CONDITION: Prisma.TransactionsWhereInput = {
+  OR: [
+    { refund: 1 },
+    { chargeback: 1 },
+    { transactionPackages: { some: { OR: [{ refund: 1 }, { chargeback: 1 }] } } },
+  ],
+};
+
+type PageComponents = (ContainerBuilder | ActionRowBuilder<ButtonBuilder>)[];
+
+class PurchaseViewManager {
+  /**
+   * Builds a page of the purchases claimed by a customer, with their packages, claim dates, refund status
+   * and linked developers. Sent with the `IsComponentsV2` flag.
+   *
+   * @param discordId discord id of the customer
+   * @param page requested page, clamped to the existing pages
+   */
+  public static async buildCustomerPage(discordId: string, page: number): Promise<PageComponents> {
+    const customerId = await PurchaseManager.getCustomerId(discordId, true);
+
+    const container = new ContainerBuilder()
+      .addTextDisplayComponents(
+        new TextDisplayBuilder().setContent('# Your Purchases')
+      )
+      .addSeparatorComponents(
+        new SeparatorBuilder().setSpacing(SeparatorSpacingSize.Small).setDivider(true),
+      );
+
+    const total = customerId ? await prisma.transactions.count({ where: { customerId } }) : 0;
+
+    if (!customerId || total === 0) {
+      container
+        .setAccentColor(16711680)
+        .addTextDisplayComponents(
+          new TextDisplayBuilder().setContent('You have no claimed purchases, use `/claimrole` with the transaction ID of your purchase.')
+        );
+
+      return [container];
+    }
+
+    const pageCount = Math.ceil(total / PAGE_SIZE);
+    const currentPage = Math.min(Math.max(0, page), pageCount - 1);
+
+    const [purchases, developers, seats] = await Promise.all([
+      prisma.transactions.findMany({
+        where: {
+          customerId,
+        },
+        include: {
+          transactionPackages: true,
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+        skip: currentPage * PAGE_SIZE,
+        take: PAGE_SIZE,
+      }),
+      prisma.customerDevelopers.findMany({
+        where: {
+          customerId,
+        },
+        select: {
+          discordId: true,
+        },
+      }),
+      PurchaseManager.getDeveloperSeats(customerId),
+    ]);
+
+    const claimDates = await this.getClaimDates(discordId, purchases.map(({ tbxId }) => tbxId));
+
+    const text = this.joinWithinLimit(
+      purchases.map((purchase, i) => this.formatTransaction(purchase, currentPage * PAGE_SIZE + i + 1, claimDates.get(purchase.tbxId)))
+    );
+
+    container
+      .setAccentColor(1950208)
+      .addTextDisplayComponents(
+        new TextDisplayBuilder().setContent(text),
+      )
+      .addSeparatorComponents(
+        new SeparatorBuilder().setSpacing(SeparatorSpacingSize.Small).setDivider(true),
+      )
+      .addTextDisplayComponents(
+        new TextDisplayBuilder().setContent(
+          `**Developers** (${developers.length}/${seats} seats): ` +
+          (developers.length > 0 ? developers.map(({ discordId: developerId }) => `<@${developerId}>`).join(', ') : 'none') +
+          `\n-# Page ${currentPage + 1}/${pageCount} - ${total} purchase(s)`
+        ),
+      );
+
+    if (pageCount === 1) return [container];
+
+    return [container, this.buildNavigation(MY_PURCHASES_PAGE_PREFIX, currentPage, pageCount)];
+  }
+
+  /**
+   * Stores a staff search so its pages can still be browsed with buttons after a restart.
+   * A staff member repeating a search gets the stored one back.
+   *
+   * @param staffId discord id of the staff member searching
+   * @returns id of the search, used in the navigation buttons
+   */
+  public static async saveSearch(staffId: string, filters: PurchaseSearchFilters): Promise<number> {
+    const data = {
+      staffId,
+      discordId: filters.discordId ?? null,
+      tbxId: filters.tbxId ?? null,
+      purchaserName: filters.purchaserName ?? null,
+      packageName: filters.packageName ?? null,
+      status: filters.status,
+    };
+
+    const search = await prisma.purchaseSearches.findFirst({ where: data, select: { id: true } })
+      ?? await prisma.purchaseSearches.create({ data, select: { id: true } });
+
+    return search.id;
+  }
+
+  /**
+   * Builds a page of the transactions matching a staff search, with a summary of every match.
+   * Sent with the `IsComponentsV2` flag.
+   *
+   * @param searchId id returned by saveSearch
+   * @param page requested page, clamped to the existing pages
+   * @returns null if the search no longer exists
+   */
+  public static async buildStaffPage(searchId: number, page: number): Promise<PageComponents | null> {
+    const search = await prisma.purchaseSearches.findUnique({
+      where: {
+        id: searchId,
+      },
+    });
+
+    if (!search) return null;
+
+    const filters: PurchaseSearchFilters = {
+      discordId: search.discordId ?? undefined,
+      tbxId: search.tbxId ?? undefined,
+      purchaserName: search.purchaserName ?? undefined,
+      packageName: search.packageName ?? undefined,
+      status: search.status as PurchaseStatusFilter,
+    };
+
+    const container = new ContainerBuilder()
+      .addTextDisplayComponents(
+        new TextDisplayBuilder().setContent('# Claimed Transactions')
+      );
+
+    const where = await this.buildWhere(filters);
+
+    const total = where ? await prisma.transactions.count({ where }) : 0;
+
+    const description = this.describeFilters(filters);
+
+    if (!where || total === 0) {
+      container
+        .setAccentColor(16711680)
+        .addSeparatorComponents(
+          new SeparatorBuilder().setSpacing(SeparatorSpacingSize.Small).setDivider(true),
+        )
+        .addTextDisplayComponents(
+          new TextDisplayBuilder().setContent(`No transactions match ${description}.`)
+        );
+
+      return [container];
+    }
+
+    const pageCount = Math.ceil(total / STAFF_PAGE_SIZE);
+    const currentPage = Math.min(Math.max(0, page), pageCount - 1);
+
+    const [active, revoked, amounts] = await Promise.all([
+      prisma.transactions.count({ where: { AND: [where, ...this.activeConditions()] } }),
+      prisma.transactions.count({ where: { AND: [where, REVOKED_CONDITION] } }),
+      // Amounts are stored as text, identical amounts are counted together and summed here
+      prisma.transactions.groupBy({
+        by: ['currency', 'amount'],
+        where: { AND: [where, { refund: 0, chargeback: 0 }] },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const spent = new Map<string, number>();
+    for (const { amount, currency, _count } of amounts) {
+      const value = parseFloat(amount ?? '');
+      if (isNaN(value)) continue;
+
+      spent.set(currency ?? '?', (spent.get(currency ?? '?') ?? 0) + value * _count._all);
+    }
+
+    const purchases = await prisma.transactions.findMany({
+      where,
+      include: {
+        transactionPackages: true,
+        customer: {
+          select: {
+            discordId: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+      skip: currentPage * STAFF_PAGE_SIZE,
+      take: STAFF_PAGE_SIZE,
+    });
+
+    const text = this.joinWithinLimit(
+      purchases.map((purchase, i) => (
+        this.formatTransaction(purchase, currentPage * STAFF_PAGE_SIZE + i + 1) +
+        (filters.discordId ? '' : `\n  -# ${purchase.customer ? `<@${purchase.customer.discordId}>` : 'Unclaimed'} - purchaser: ${purchase.purchaserName}`)
+      ))
+    );
+
+    container
+      .setAccentColor(1950208)
+      .addTextDisplayComponents(
+        new TextDisplayBuilder().setContent(
+          `-# Matching ${description}\n` +
+          `**${total}** transaction(s) - **${active}** active - **${revoked}** refunded or chargebacked` +
+          (spent.size > 0 ? `\nSpent: ${[...spent].map(([currency, total]) => `${total.toFixed(2)} ${currency}`).join(', ')}` : '')
+        )
+      )
+      .addSeparatorComponents(
+        new SeparatorBuilder().setSpacing(SeparatorSpacingSize.Small).setDivider(true),
+      )
+      .addTextDisplayComponents(
+        new TextDisplayBuilder().setContent(text),
+      )
+      .addTextDisplayComponents(
+        new TextDisplayBuilder().setContent(`-# Page ${currentPage + 1}/${pageCount}`),
+      );
+
+    if (pageCount === 1) return [container];
+
+    return [container, this.buildNavigation(`${VIEW_PURCHASES_PAGE_PREFIX}${searchId}:`, currentPage, pageCount)];
+  }
+
+  /**
+   * @returns null when the searched user has no customer entry, nothing can match
+   */
+  private static async buildWhere(filters: PurchaseSearchFilters): Promise<Prisma.TransactionsWhereInput | null> {
+    const conditions: Prisma.TransactionsWhereInput[] = [];
+
+    if (filters.discordId) {
+      const customerId = await PurchaseManager.getCustomerId(filters.discordId, true);
+      if (!customerId) return null;
+
+      conditions.push({ customerId });
+    }
+
+    if (filters.tbxId) conditions.push({ tbxId: { contains: filters.tbxId } });
+    if (filters.purchaserName) conditions.push({ purchaserName: { contains: filters.purchaserName } });
+    if (filters.packageName) conditions.push({ transactionPackages: { some: { package: { contains: filters.packageName } } } });
+
+    if (filters.status === 'active') {
+      conditions.push(...this.activeConditions());
+    } else if (filters.status === 'refunded') {
+      conditions.push(REVOKED_CONDITION);
+    }
+
+    return { AND: conditions };
+  }
+
+  /**
+   * Same rules as PurchaseManager.isPurchaseActive, evaluated by the database.
+   */
+  private static activeConditions(): Prisma.TransactionsWhereInput[] {
+    return [
+      { refund: 0, chargeback: 0 },
+      { OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] },
+      { OR: [{ transactionPackages: { none: {} } }, { transactionPackages: { some: { refund: 0, chargeback: 0 } } }] },
+    ];
+  }
+
+  private static describeFilters(filters: PurchaseSearchFilters): string {
+    return [
+      filters.discordId ? `user <@${filters.discordId}>` : null,
+      filters.tbxId ? `transaction \`${filters.tbxId}\`` : null,
+      filters.purchaserName ? `purchaser \`${filters.purchaserName}\`` : null,
+      filters.packageName ? `package \`${filters.packageName}\`` : null,
+      filters.status !== 'all' ? `${filters.status} transactions` : null,
+    ].filter(Boolean).join(', ');
+  }
+
+  private static buildNavigation(prefix: string, currentPage: number, pageCount: number): ActionRowBuilder<ButtonBuilder> {
+    return new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`${prefix}${currentPage - 1}`)
+        .setLabel('Previous')
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(currentPage === 0),
+      new ButtonBuilder()
+        .setCustomId(`${prefix}${currentPage + 1}`)
+        .setLabel('Next')
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(currentPage >= pageCount - 1),
+    );
+  }
+
+  /**
+   * Joins the entries of a page, the ones over the text limit are replaced by a note.
+   */
+  private static joinWithinLimit(entries: string[]): string {
+    let text = '';
+    let shown = 0;
+    for (const entry of entries) {
+      if (text.length + entry.length + 1 > TEXT_LIMIT) break;
+      text += (text ? '\n' : '') + entry;
+      shown++;
+    }
+
+    if (shown < entries.length) {
+      text += `\n-# ${entries.length - shown} more purchase(s) on this page could not be displayed, narrow down the search.`;
+    }
+
+    return text;
+  }
+
+  /**
+   * Latest time each transaction was claimed by, linked or transferred to the customer, from the audit log.
+   * Automatic links are recorded as claims by the system.
+   */
+  private static async getClaimDates(discordId: string, transactionIds: string[]): Promise<Map<string, Date>> {
+    const claims = await prisma.auditLog.findMany({
+      where: {
+        action: { in: ['claim', 'link', 'transfer'] },
+        targetId: discordId,
+        tbxId: { in: transactionIds },
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+      select: {
+        tbxId: true,
+        createdAt: true,
+      },
+    });
+
+    return new Map(claims.map(({ tbxId, createdAt }) => [tbxId!, createdAt]));
+  }
+
+  /**
+   * @param claimedAt claim date of the purchase, the payment date or the date it was recorded is shown instead when unknown
+   */
+  private static formatTransaction(purchase: ListedTransaction, position: number, claimedAt?: Date): string {
+    const packages = purchase.transactionPackages.map((p) => (
+      `${p.package}${p.quantity > 1 ? ` x${p.quantity}` : ''}` +
+      (p.chargeback || p.refund ? ` - :x: **${p.chargeback ? 'CHARGEBACK' : 'REFUND'}**` : '')
+    )).join('\n  * ');
+
+    const flag = purchase.chargeback || purchase.refund
+      ? `- :x: **${purchase.chargeback ? 'CHARGEBACK' : 'REFUND'}**`
+      : purchase.transactionPackages.some((p) => p.chargeback || p.refund)
+        ? '- :warning: **PARTIAL REFUND**'
+        : '';
+
+    const expiry = purchase.expiresAt
+      ? ` - ${purchase.expiresAt > new Date() ? 'expires' : ':hourglass: **EXPIRED**'} <t:${GetUnixSecondsFromDate(purchase.expiresAt)}:d>`
+      : '';
+
+    const [dateLabel, date] = claimedAt
+      ? ['Claimed', claimedAt]
+      : purchase.paymentDate ? ['Purchased', purchase.paymentDate] : ['Recorded', purchase.createdAt];
+
+    return `${position}. \`${purchase.tbxId}\` ${flag}\n` +
+      `  -# ${dateLabel} <t:${GetUnixSecondsFromDate(date)}:d>${expiry}\n` +
+      `  * ${packages || 'No packages'}`;
+  }
+}
+
+export default PurchaseViewManager;
@@ -0,0 +1,223 @@
+import { EmbedBuilder } from "discord.js";
+import { DiscordClient } from "@types";
+import Logger from "../utils/logger";
+import SettingsManager from "./settings_handler";
+import PurchaseManager from "./purchase_handler";
+import tebexHandler from "./tebex_handler";
+import { prisma } from "../utils/prisma";
+import { PostStaffLog } from "../utils/staff_log";
+
+const logger = new Logger('Reconciliation');
+
+// Delay between two Tebex lookups, keeps a full run well under the API rate limits
+const LOOKUP_DELAY = 1000;
+// setTimeout overflows past ~24.8 days
+const MAX_INTERVAL_HOURS = 24 * 24;
+// While the job is disabled, the setting is checked again every hour
+const DISABLED_RECHECK = 60 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+interface ReconciliationSummary {
+  checked: number;
+  refunded: string[];
+  chargebacked: string[];
+  notFound: string[];
+  revokedCustomers: number;
+  aborted: string | null;
+}
+
+class ReconciliationManager {
+  private static discordClient: DiscordClient;
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = false;
+
+  /**
+   * Runs the reconciliation job on startup, then schedules the next runs. The interval is read from the
+   * `reconciliation_interval` setting (hours) before each run, a value of 0 or less disables the job.
+   */
+  public static start(client: DiscordClient) {
+    this.discordClient = client;
+
+    if (this.timer) clearTimeout(this.timer);
+
+    const interval = this.getInterval();
+
+    if (interval <= 0) {
+      logger.info('Reconciliation job disabled (reconciliation_interval <= 0)');
+      this.scheduleNext();
+      return;
+    }
+
+    logger.info(`Reconciliation job scheduled every ${interval} hour(s)`);
+    this.runScheduled();
+  }
+
+  private static getInterval(): number {
+    return SettingsManager.get<number>('reconciliation_interval') ?? 24;
+  }
+
+  private static runScheduled() {
+    this.run()
+      .catch((err) => logger.error('Reconciliation failed:', (err as Error).message))
+      .finally(() => this.scheduleNext());
+  }
+
+  private static scheduleNext() {
+    const interval = this.getInterval();
+
+    this.timer = interval > 0
+      ? setTimeout(() => this.runScheduled(), Math.min(interval, MAX_INTERVAL_HOURS) * 60 * 60 * 1000)
+      : setTimeout(() => this.scheduleNext(), DISABLED_RECHECK);
+  }
+
+  /**
+   * Re-queries every active transaction on tebex and revokes the ones that were refunded or
+   * chargebacked without the bot being notified, the same way as a notification would.
+   *
+   * @returns run summary, null if a run is already in progress
+   */
+  public static async run(): Promise<ReconciliationSummary | null> {
+    if (this.running) {
+      logger.warn('Reconciliation already in progress, skipping.');
+      return null;
+    }
+
+    this.running = true;
+
+    const summary: ReconciliationSummary = {
+      checked: 0,
+      refunded: [],
+      chargebacked: [],
+      notFound: [],
+      revokedCustomers: 0,
+      aborted: null,
+    };
+
+    try {
+      const transactions = await prisma.transactions.findMany({
+        where: {
+          refund: 0,
+          chargeback: 0,
+        },
+        select: {
+          tbxId: true,
+          customerId: true,
+        },
+      });
+
+      logger.info(`Reconciling ${transactions.length} active transaction(s)`);
+
+      const affectedCustomers = new Set<number>();
+
+      for (const { tbxId, customerId } of transactions) {
+        tebexHandler.invalidatePurchase(tbxId);
+
+        const result = await tebexHandler.verifyPurchase(tbxId);
+
+        if (!result.success) {
+          if (result.type === 'not_found') {
+            summary.notFound.push(tbxId);
+          } else if (result.type === 'transient' || result.type === 'auth') {
+            summary.aborted = result.error;
+            break;
+          }
+        } else {
+          summary.checked++;
+
+          const { status } = result.data;
+
+          try {
+            await PurchaseManager.savePayment(tbxId, result.data);
+
+            if (status === 'Refund' || status === 'Chargeback') {
+              (status === 'Refund' ? summary.refunded : summary.chargebacked).push(tbxId);
+
+              if (customerId) affectedCustomers.add(customerId);
+
+              await PurchaseManager.revokeTransaction(tbxId, status === 'Refund' ? 'refund' : 'chargeback');
+            }
+          } catch (err) {
+            logger.error(`Unable to reconcile ${tbxId}:`, (err as Error).message);
+          }
+        }
+
+        await sleep(LOOKUP_DELAY);
+      }
+
+      for (const customerId of affectedCustomers) {
+        const hasPurchases = await this.hasActivePurchases(customerId)
+          .catch((err) => {
+            logger.error(`Unable to check purchases of customer ${customerId}:`, (err as Error).message);
+            return true;
+          });
+
+        if (!hasPurchases) summary.revokedCustomers++;
+      }
+    } finally {
+      this.running = false;
+    }
+
+    logger.info(
+      `Reconciliation done: ${summary.checked} checked, ${summary.refunded.length} refunded, ` +
+      `${summary.chargebacked.length} chargebacked, ${summary.notFound.length} not found` +
+      (summary.aborted ? ` (aborted: ${summary.aborted})` : '')
+    );
+
+    await this.postSummary(summary);
+
+    return summary;
+  }
+
+  /**
+   * Read-only check, the customer's access was already updated when their transactions were revoked.
+   */
+  private static async hasActivePurchases(customerId: number): Promise<boolean> {
+    const purchases = await prisma.transactions.findMany({
+      where: {
+        customerId,
+      },
+      select: {
+        refund: true,
+        chargeback: true,
+        expiresAt: true,
+        transactionPackages: {
+          select: {
+            refund: true,
+            chargeback: true,
+          },
+        },
+      },
+    });
+
+    return purchases.some((purchase) => PurchaseManager.isPurchaseActive(purchase));
+  }
+
+  private static async postSummary(summary: ReconciliationSummary) {
+    const hasChanges = summary.refunded.length > 0 || summary.chargebacked.length > 0 || summary.notFound.length > 0;
+
+    if (!hasChanges && !summary.aborted) return;
+
+    const formatList = (list: string[]) => list.length > 0
+      ? list.slice(0, 20).map((tbxId) => `* \`${tbxId}\``).join('\n') + (list.length > 20 ? `\n-# and ${list.length - 20} more` : '')
+      : 'None';
+
+    const embed = new EmbedBuilder()
+      .setTitle('Purchase reconciliation')
+      .setColor(summary.aborted ? 0xED4245 : 0xFEE75C)
+      .setDescription(
+        `Checked **${summary.checked}** transaction(s), **${summary.revokedCustomers}** customer(s) lost their access.` +
+        (summary.aborted ? `\n> :warning: Run aborted early: ${summary.aborted}` : '')
+      )
+      .addFields(
+        { name: 'Refunded', value: formatList(summary.refunded), inline: false },
+        { name: 'Chargebacked', value: formatList(summary.chargebacked), inline: false },
+        { name: 'Not found on Tebex', value: formatList(summary.notFound), inline: false },
+      )
+      .setTimestamp();
+
+    await PostStaffLog(this.discordClient, embed, 'reconciliation summary');
+  }
+}
+
+export default ReconciliationManager;
@@ -0,0 +1,247 @@
+import { EmbedBuilder, GuildMember } from "discord.js";
+import { DiscordClient } from "@types";
+import Logger from "../utils/logger";
+import env from "../utils/config";
+import SettingsManager from "./settings_handler";
+import AuditLogManager, { SYSTEM_ACTOR } from "./audit_handler";
+import PurchaseManager from "./purchase_handler";
+import { prisma } from "../utils/prisma";
+import { PostStaffLog } from "../utils/staff_log";
+
+const logger = new Logger('Role Drift');
+
+// Delay between two role updates, discord rate limits member edits per guild
+const ROLE_UPDATE_DELAY = 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * - `0`: disabled
+ * - `1`: report differences only
+ * - `2`: report and fix differences
+ */
+export enum RoleDriftStartupMode {
+  Disabled = 0,
+  DryRun = 1,
+  Apply = 2,
+}
+
+interface RoleUpdate {
+  memberId: string;
+  roleId: string;
+  type: 'add' | 'remove';
+  reason: string;
+}
+
+export interface RoleDriftReport {
+  apply: boolean;
+  missingCustomerRole: string[];
+  extraCustomerRole: string[];
+  missingDeveloperRole: string[];
+  extraDeveloperRole: string[];
+  applied: number;
+  failed: number;
+}
+
+class RoleDriftManager {
+  private static running = false;
+
+  /**
+   * Compares the customers and developers with active purchases against the members holding
+   * `customer_role` and `customers_dev_role`.
+   *
+   * @param client discord client
+   * @param apply fix the differences, only reports them otherwise
+   * @returns report, null if a run is already in progress or the roles aren't configured
+   */
+  public static async run(client: DiscordClient, apply: boolean): Promise<RoleDriftReport | null> {
+    if (this.running) {
+      logger.warn('A role drift check is already in progress, skipping.');
+      return null;
+    }
+
+    const customerRole = SettingsManager.get<string>('customer_role');
+    const developerRole = SettingsManager.get<string>('customers_dev_role');
+
+    const guild = await client.guilds.fetch(env.MAIN_GUILD_ID).catch(() => null);
+
+    if (!guild || !customerRole || !developerRole || !guild.roles.cache.has(customerRole) || !guild.roles.cache.has(developerRole)) {
+      logger.error('Unable to check role drift, MAIN_GUILD_ID, customer_role or customers_dev_role is invalid.');
+      return null;
+    }
+
+    this.running = true;
+
+    try {
+      const members = await guild.members.fetch();
+
+      const { customers, developers } = await this.getExpectedMembers();
+
+      const report: RoleDriftReport = {
+        apply,
+        missingCustomerRole: [],
+        extraCustomerRole: [],
+        missingDeveloperRole: [],
+        extraDeveloperRole: [],
+        applied: 0,
+        failed: 0,
+      };
+
+      const updates: RoleUpdate[] = [];
+
+      const compare = (member: GuildMember, roleId: string, expected: boolean, missing: string[], extra: string[]) => {
+        const hasRole = member.roles.cache.has(roleId);
+
+        if (expected && !hasRole) {
+          missing.push(member.id);
+          updates.push({ memberId: member.id, roleId, type: 'add', reason: 'Active purchase without role' });
+        } else if (!expected && hasRole) {
+          extra.push(member.id);
+          updates.push({ memberId: member.id, roleId, type: 'remove', reason: 'Role held without active purchase' });
+        }
+      };
+
+      for (const member of members.values()) {
+        if (member.user.bot) continue;
+
+        compare(member, customerRole, customers.has(member.id), report.missingCustomerRole, report.extraCustomerRole);
+        compare(member, developerRole, developers.has(member.id), report.missingDeveloperRole, report.extraDeveloperRole);
+      }
+
+      logger.info(
+        `Role drift: ${report.missingCustomerRole.length} missing / ${report.extraCustomerRole.length} extra customer role(s), ` +
+        `${report.missingDeveloperRole.length} missing / ${report.extraDeveloperRole.length} extra developer role(s)` +
+        (apply ? '' : ' (dry-run)')
+      );
+
+      if (apply) {
+        for (const update of updates) {
+          const member = members.get(update.memberId);
+          if (!member) continue;
+
+          try {
+            if (update.type === 'add') {
+              await member.roles.add(update.roleId, `Role drift: ${update.reason}`);
+            } else {
+              await member.roles.remove(update.roleId, `Role drift: ${update.reason}`);
+            }
+
+            report.applied++;
+
+            await AuditLogManager.record({
+              action: 'role_sync',
+              actorId: SYSTEM_ACTOR,
+              targetId: update.memberId,
+              reason: `${update.type === 'add' ? 'Granted' : 'Removed'} <@&${update.roleId}>: ${update.reason}`,
+            });
+          } catch (err) {
+            report.failed++;
+            logger.error(`Unable to ${update.type} role ${update.roleId} for ${update.memberId}:`, (err as Error).message);
+          }
+
+          await sleep(ROLE_UPDATE_DELAY);
+        }
+      }
+
+      await this.postReport(client, report);
+
+      return report;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Discord ids of the customers with at least one active purchase, and of their developers.
+   * Blacklisted discord ids are left out, their roles are reported as unexpected.
+   */
+  private static async getExpectedMembers(): Promise<{ customers: Set<string>; developers: Set<string> }> {
+    const blacklisted = new Set((await prisma.blacklist.findMany({
+      where: {
+        type: 'discord_id',
+      },
+      select: {
+        value: true,
+      },
+    })).map(({ value }) => value));
+
+    const rows = await prisma.customers.findMany({
+      select: {
+        discordId: true,
+        customerDevelopers: {
+          select: {
+            discordId: true,
+          },
+        },
+        transactions: {
+          select: {
+            refund: true,
+            chargeback: true,
+            expiresAt: true,
+            transactionPackages: {
+              select: {
+                refund: true,
+                chargeback: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const customers = new Set<string>();
+    const developers = new Set<string>();
+
+    for (const { discordId, customerDevelopers, transactions } of rows) {
+      if (!transactions.some((transaction) => PurchaseManager.isPurchaseActive(transaction))) continue;
+
+      if (!blacklisted.has(discordId)) customers.add(discordId);
+
+      for (const developer of customerDevelopers) {
+        if (!blacklisted.has(developer.discordId)) developers.add(developer.discordId);
+      }
+    }
+
+    return { customers, developers };
+  }
+
+  private static async postReport(client: DiscordClient, report: RoleDriftReport) {
+    if (this.countDifferences(report) === 0) return;
+
+    await PostStaffLog(client, this.buildReportEmbed(report), 'role drift report');
+  }
+
+  private static countDifferences(report: RoleDriftReport): number {
+    return report.missingCustomerRole.length + report.extraCustomerRole.length +
+      report.missingDeveloperRole.length + report.extraDeveloperRole.length;
+  }
+
+  public static buildReportEmbed(report: RoleDriftReport): EmbedBuilder {
+    const formatList = (list: string[]) => list.length > 0
+      ? list.slice(0, 20).map((id) => `* <@${id}>`).join('\n') + (list.length > 20 ? `\n-# and ${list.length - 20} more` : '')
+      : 'None';
+
+    const inSync = this.countDifferences(report) === 0;
+
+    let description = 'No roles were changed, run `/role-drift apply` to fix these differences.';
+    if (inSync) {
+      description = 'Customer and developer roles are in sync with active purchases.';
+    } else if (report.apply) {
+      description = `Applied **${report.applied}** role update(s)${report.failed > 0 ? `, **${report.failed}** failed` : ''}.`;
+    }
+
+    return new EmbedBuilder()
+      .setTitle(`Role drift ${report.apply ? 'fixed' : 'report (dry-run)'}`)
+      .setColor(report.failed > 0 ? 0xED4245 : inSync ? 0x57F287 : 0xFEE75C)
+      .setDescription(description)
+      .addFields(
+        { name: 'Missing customer role', value: formatList(report.missingCustomerRole), inline: false },
+        { name: 'Unexpected customer role', value: formatList(report.extraCustomerRole), inline: false },
+        { name: 'Missing developer role', value: formatList(report.missingDeveloperRole), inline: false },
+        { name: 'Unexpected developer role', value: formatList(report.extraDeveloperRole), inline: false },
+      )
+      .setTimestamp();
+  }
+}
+
+export default RoleDriftManager;
@@ -0,0 +1,62 @@
+/**
+ * Minimal circuit breaker, opens after `threshold` consecutive failures and
+ * rejects every request until `cooldown` seconds have passed.
+ * The first request after the cooldown is let through to probe the upstream (half-open),
+ * concurrent requests keep being rejected until the probe succeeds, or for another cooldown
+ * if it never reports back.
+ */
+export default class CircuitBreaker {
+  private failures = 0;
+  private openedUntil = 0;
+  private tripped = false;
+  private threshold: number;
+  private cooldown: number;
+
+  /**
+   * @param threshold - Consecutive failures before the circuit opens.
+   * @param cooldown - Time the circuit stays open, in seconds.
+   */
+  constructor(threshold: number, cooldown: number) {
+    this.threshold = threshold;
+    this.cooldown = cooldown * 1000;
+  }
+
+  isOpen(): boolean {
+    if (this.openedUntil > Date.now()) return true;
+
+    // half-open, the caller becomes the single probe and the circuit stays closed to the others
+    if (this.tripped) this.openedUntil = Date.now() + this.cooldown;
+
+    return false;
+  }
+
+  /**
+   * @returns time left before the circuit closes, in milliseconds
+   */
+  remaining(): number {
+    return Math.max(0, this.openedUntil - Date.now());
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedUntil = 0;
+    this.tripped = false;
+  }
+
+  /**
+   * @returns {boolean} the failure tripped the circuit
+   */
+  recordFailure(): boolean {
+    this.failures++;
+
+    // a failed probe after the cooldown re-opens the circuit straight away
+    if (this.tripped || this.failures >= this.threshold) {
+      this.failures = 0;
+      this.tripped = true;
+      this.openedUntil = Date.now() + this.cooldown;
+      return true;
+    }
+
+    return false;
+  }
+}
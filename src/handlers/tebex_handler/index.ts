@@ -1,15 +1,19 @@
 import Config from '../../utils/config';
 import Logger from '../../utils/logger';
-import { TebexAPIError, TebexPayment, TebexPurchasePayload, TebexWebhookJsonPayload, RawTebexWebhookPayload } from '../../types';
-import { GetUtcTimestamp } from '../../utils/utils';
+import { TebexAPIError, TebexCacheStats, TebexPayloadParseResult, TebexPayment } from '../../types';
 
 import verify_purchase from './verify_purchase';
+import PaymentCache from './payment_cache';
+import CircuitBreaker from './circuit_breaker';
+import validate_payload from './validate_payload';
 
 class TebexApi {
   private static instance: TebexApi;
   private tebexSecret: string;
-  private TEBEX_API_BASE_URL = 'https://plugin.tebex.io';
+  private TEBEX_API_BASE_URL = Config.TEBEX_API_BASE_URL;
   private logger = new Logger('TEBEX-API');
+  private cache = new PaymentCache(Config.TEBEX_CACHE_TTL, Config.TEBEX_CACHE_NEGATIVE_TTL);
+  private breaker = new CircuitBreaker(Config.TEBEX_CIRCUIT_THRESHOLD, Config.TEBEX_CIRCUIT_COOLDOWN);
 
   private constructor() {
     if (!Config.TEBEX_SECRET) {
@@ -26,35 +30,49 @@ class TebexApi {
   }
 
   async verifyPurchase(transactionId: string): Promise<{ success: true, data: TebexPayment } | TebexAPIError> {
-    return await verify_purchase(this.logger, this.TEBEX_API_BASE_URL, this.tebexSecret, transactionId);
-  }
+    const cached = this.cache.get(transactionId);
+    if (cached) return cached;
 
-  parsePurchaseJson(json: string): TebexWebhookJsonPayload | null {
-    let purchaseData: RawTebexWebhookPayload | null;
+    const result = await verify_purchase(
+      this.logger,
+      this.TEBEX_API_BASE_URL,
+      this.tebexSecret,
+      transactionId,
+      this.breaker,
+      Config.TEBEX_MAX_RETRIES,
+    );
 
-    try {
-      purchaseData = JSON.parse(json);
-    } catch (err) { // eslint-disable-line @typescript-eslint/no-unused-vars
-      return null;
-    }
+    this.cache.set(transactionId, result);
 
-    if (!purchaseData || !(
-      purchaseData.action && purchaseData.packageName && purchaseData.transaction
-    )) {
-      return null;
-    }
+    return result;
+  }
 
-    const processedData = purchaseData as TebexPurchasePayload;
+  /**
+   * Drops the cached lookup for a transaction, used when its status changes (refund, chargeback...).
+   *
+   * @param transactionId tebex transaction id
+   * @returns {boolean} an entry was cached
+   */
+  invalidatePurchase(transactionId: string): boolean {
+    return this.cache.invalidate(transactionId);
+  }
 
-    if (processedData.discordId && !processedData.discordId.trim()) {
-      processedData.discordId = null;
-    }
+  clearCache(): void {
+    this.cache.clear();
+  }
 
-    if (!processedData.timestamp) {
-      processedData.timestamp = GetUtcTimestamp(processedData.time, processedData.date);
-    }
+  getCacheStats(): TebexCacheStats {
+    return this.cache.stats();
+  }
 
-    return processedData;
+  /**
+   * Validates the JSON payload of a tebex discord notification.
+   *
+   * @param json message content
+   * @returns the payload, or the reasons it was rejected
+   */
+  parsePurchaseJson(json: string): TebexPayloadParseResult {
+    return validate_payload(json);
   }
 }
 
@@ -0,0 +1,81 @@
+import { TebexAPIError, TebexCacheStats, TebexPayment } from "../../types";
+
+type CachedLookup = { success: true, data: TebexPayment } | TebexAPIError;
+
+interface CacheEntry {
+  value: CachedLookup;
+  expiresAt: number;
+}
+
+/**
+ * In-memory cache for Tebex payment lookups, keyed by transaction id.
+ * Successful lookups and 404s are cached with separate TTLs, anything else is never cached.
+ */
+export default class PaymentCache {
+  private entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private ttl: number;
+  private negativeTtl: number;
+
+  /**
+   * @param ttl - Lifetime of a successful lookup, in seconds.
+   * @param negativeTtl - Lifetime of a "not found" lookup, in seconds.
+   */
+  constructor(ttl: number, negativeTtl: number) {
+    this.ttl = ttl * 1000;
+    this.negativeTtl = negativeTtl * 1000;
+  }
+
+  get(transactionId: string): CachedLookup | null {
+    const entry = this.entries.get(transactionId);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) this.entries.delete(transactionId);
+      this.misses++;
+      return null;
+    }
+
+    this.hits++;
+    return entry.value;
+  }
+
+  set(transactionId: string, value: CachedLookup): void {
+    let lifetime: number;
+
+    if (value.success) {
+      lifetime = this.ttl;
+    } else if (value.type === 'not_found') {
+      lifetime = this.negativeTtl;
+    } else {
+      return;
+    }
+
+    if (lifetime <= 0) return;
+
+    this.entries.set(transactionId, {
+      value,
+      expiresAt: Date.now() + lifetime,
+    });
+  }
+
+  invalidate(transactionId: string): boolean {
+    return this.entries.delete(transactionId);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  stats(): TebexCacheStats {
+    for (const [transactionId, { expiresAt }] of this.entries) {
+      if (expiresAt <= Date.now()) this.entries.delete(transactionId);
+    }
+
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      entries: this.entries.size,
+    };
+  }
+}
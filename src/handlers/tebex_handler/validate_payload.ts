@@ -0,0 +1,150 @@
+import { TebexPayloadIssue, TebexPayloadParseResult, TebexPurchasePayload, TebexRefundChargebackPayload } from "../../types";
+import { dateRegex, GetUtcTimestamp, tbxIdRegex, timeRegex } from "../../utils/utils";
+
+const ACTIONS = ['purchase', 'refund', 'chargeback'] as const;
+
+const REQUIRED_FIELDS = ['transaction', 'packageName', 'username'] as const;
+const OPTIONAL_PURCHASE_FIELDS = ['price', 'time', 'date', 'email', 'purchaserName', 'purchaserUuid', 'server', 'discordId'] as const;
+
+// Tebex leaves these placeholders unfilled when the buyer didn't log in with them at checkout
+const PLACEHOLDER_FIELDS: readonly string[] = ['discordId'];
+
+const transactionRegex = new RegExp(`^(${tbxIdRegex.source})$`);
+const snowflakeRegex = /^\d{17,20}$/;
+const templateRegex = /\{[a-zA-Z]+\}/;
+
+type PayloadFields = Record<string, unknown>;
+
+/**
+ * Checks that a field is a string which isn't an unfilled tebex placeholder, placeholders of
+ * `PLACEHOLDER_FIELDS` are read as an absent value.
+ *
+ * @returns trimmed value, null if the field is absent or empty
+ */
+const readString = (payload: PayloadFields, field: string, issues: TebexPayloadIssue[]): string | null => {
+  const value = payload[field];
+
+  if (value === undefined || value === null) return null;
+
+  if (typeof value !== 'string') {
+    issues.push({ type: 'invalid_field', field, message: `\`${field}\` must be a string, got ${typeof value}` });
+    return null;
+  }
+
+  const trimmed = value.trim();
+
+  if (templateRegex.test(trimmed)) {
+    if (PLACEHOLDER_FIELDS.includes(field)) return null;
+
+    issues.push({ type: 'unfilled_template', field, message: `\`${field}\` still holds the placeholder \`${trimmed}\`` });
+    return null;
+  }
+
+  return trimmed || null;
+}
+
+/**
+ * Strictly validates the JSON payload of a tebex discord notification, according to its action.
+ *
+ * @param json message content
+ */
+export default (json: string): TebexPayloadParseResult => {
+  let payload: unknown;
+
+  try {
+    payload = JSON.parse(json);
+  } catch {
+    return { success: false, issues: [{ type: 'invalid_json', field: null, message: 'The message is not valid JSON' }] };
+  }
+
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return { success: false, issues: [{ type: 'invalid_json', field: null, message: 'The message is not a JSON object' }] };
+  }
+
+  const fields = payload as PayloadFields;
+  const issues: TebexPayloadIssue[] = [];
+
+  const action = fields.action;
+
+  if (typeof action !== 'string' || !(ACTIONS as readonly string[]).includes(action)) {
+    return {
+      success: false,
+      issues: [{
+        type: 'unknown_action',
+        field: 'action',
+        message: `\`action\` must be one of ${ACTIONS.map((a) => `\`${a}\``).join(', ')}, got \`${String(action)}\``,
+      }],
+    };
+  }
+
+  const required: Record<string, string> = {};
+
+  for (const field of REQUIRED_FIELDS) {
+    const issueCount = issues.length;
+    const value = readString(fields, field, issues);
+
+    if (value) {
+      required[field] = value;
+    } else if (issues.length === issueCount) {
+      issues.push({ type: 'missing_field', field, message: `\`${field}\` is required for ${action} notifications` });
+    }
+  }
+
+  if (required.transaction && !transactionRegex.test(required.transaction)) {
+    issues.push({ type: 'invalid_field', field: 'transaction', message: `\`${required.transaction}\` is not a valid transaction id` });
+  }
+
+  if (action === 'refund' || action === 'chargeback') {
+    if (issues.length > 0) return { success: false, issues };
+
+    const data: TebexRefundChargebackPayload = {
+      action,
+      username: required.username,
+      transaction: required.transaction,
+      packageName: required.packageName,
+    };
+
+    return { success: true, data };
+  }
+
+  const optional: Partial<Record<typeof OPTIONAL_PURCHASE_FIELDS[number], string>> = {};
+
+  for (const field of OPTIONAL_PURCHASE_FIELDS) {
+    const value = readString(fields, field, issues);
+    if (value) optional[field] = value;
+  }
+
+  if (optional.discordId && !snowflakeRegex.test(optional.discordId)) {
+    issues.push({ type: 'invalid_field', field: 'discordId', message: `\`${optional.discordId}\` is not a valid discord id` });
+  }
+
+  if (optional.date && !dateRegex.test(optional.date)) {
+    issues.push({ type: 'invalid_field', field: 'date', message: `\`${optional.date}\` doesn't match the DD/MM/YY format` });
+  }
+
+  if (optional.time && !timeRegex.test(optional.time)) {
+    issues.push({ type: 'invalid_field', field: 'time', message: `\`${optional.time}\` doesn't match the HH:MM(:SS) format` });
+  }
+
+  if (issues.length > 0) return { success: false, issues };
+
+  const data: TebexPurchasePayload = {
+    action: 'purchase',
+    username: required.username,
+    transaction: required.transaction,
+    packageName: required.packageName,
+    price: optional.price ?? '',
+    time: optional.time ?? '',
+    date: optional.date ?? '',
+    email: optional.email ?? '',
+    purchaserName: optional.purchaserName ?? '',
+    purchaserUuid: optional.purchaserUuid ?? '',
+    server: optional.server ?? '',
+    discordId: optional.discordId ?? null,
+    timestamp: (optional.time && optional.date)
+      ? GetUtcTimestamp(optional.time, optional.date, 'validate_payload')
+      : Date.now(),
+  };
+
+  return { success: true, data };
+}
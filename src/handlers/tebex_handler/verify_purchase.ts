@@ -1,42 +1,122 @@
 import axios from "axios";
 import { TebexAPIError, TebexPayment } from "../../types";
 import type Logger from "../../utils/logger";
+import type CircuitBreaker from "./circuit_breaker";
 
-export default async (logger: Logger, url: string, secret: string, transactionId: string): Promise<{ success: true, data: TebexPayment } | TebexAPIError> => {
-  try {
-    const response = await axios.get<TebexPayment>(`${url}/payments/${transactionId}`, {
-      headers: {
-        'X-Tebex-Secret': secret,
-        'Content-Type': 'application/json',
-      },
-      timeout: 5000,
-    });
-
-    const payment = response.data;
-
-    if (payment) {
-      return { success: true, data: payment };
-    } else {
-      logger.warn(`No purchase data received for Transaction ID: ${transactionId}`);
-      return { success: false, error: `No purchases found for Transaction ID: ${transactionId}` };
-    }
-  } catch (error: any) { // eslint-disable-line
-    if (axios.isAxiosError(error) && error.response) {
-      if (error.response.status === 404) {
-        logger.warn(`Purchase with Transaction ID ${transactionId} not found (HTTP 404).`);
-        return { success: false, error: `Purchase with Transaction ID ${transactionId} not found.` };
-      } else if (error.response.status === 401) {
-        logger.error(`Authentication error (HTTP 401). Check your Tebex Secret Key.`);
-        return { success: false, error: `Authentication error: Check your Tebex Secret Key.` };
+const BASE_RETRY_DELAY = 500;
+const MAX_RETRY_DELAY = 10_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/**
+ * Parses a `Retry-After` header, either a delay in seconds or an HTTP date.
+ *
+ * @returns delay in milliseconds, null if absent or unparseable
+ */
+const parseRetryAfter = (header: unknown): number | null => {
+  if (typeof header !== 'string' || !header.trim()) return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+
+  return null;
+}
+
+/**
+ * Exponential backoff with full jitter.
+ */
+const getBackoffDelay = (attempt: number) => Math.random() * Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** attempt);
+
+export default async (
+  logger: Logger,
+  url: string,
+  secret: string,
+  transactionId: string,
+  breaker: CircuitBreaker,
+  maxRetries: number,
+): Promise<{ success: true, data: TebexPayment } | TebexAPIError> => {
+  if (breaker.isOpen()) {
+    logger.warn(`Circuit open, skipping lookup for Transaction ID ${transactionId} (${Math.ceil(breaker.remaining() / 1000)}s left).`);
+    return { success: false, error: 'Tebex is currently unavailable, please try again later.', type: 'transient' };
+  }
+
+  let lastError: TebexAPIError | null = null;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    let retryDelay: number | null = null;
+
+    try {
+      const response = await axios.get<TebexPayment>(`${url}/payments/${transactionId}`, {
+        headers: {
+          'X-Tebex-Secret': secret,
+          'Content-Type': 'application/json',
+        },
+        timeout: 5000,
+      });
+
+      breaker.recordSuccess();
+
+      const payment = response.data;
+
+      if (payment) {
+        return { success: true, data: payment };
+      } else {
+        logger.warn(`No purchase data received for Transaction ID: ${transactionId}`);
+        return { success: false, error: `No purchases found for Transaction ID: ${transactionId}`, type: 'not_found' };
+      }
+    } catch (error: any) { // eslint-disable-line
+      if (axios.isAxiosError(error) && error.response) {
+        const { status } = error.response;
+
+        // A definitive answer means tebex is reachable, it also settles a half-open probe
+        if (!isRetryableStatus(status)) breaker.recordSuccess();
+
+        if (status === 404) {
+          logger.warn(`Purchase with Transaction ID ${transactionId} not found (HTTP 404).`);
+          return { success: false, error: `Purchase with Transaction ID ${transactionId} not found.`, type: 'not_found', status };
+        } else if (status === 401) {
+          logger.error(`Authentication error (HTTP 401). Check your Tebex Secret Key.`);
+          return { success: false, error: `Authentication error: Check your Tebex Secret Key.`, type: 'auth', status };
+        } else if (!isRetryableStatus(status)) {
+          const errorMessage = error.response.data?.error || error.response.statusText || `Unknown Tebex API error (HTTP ${status})`;
+          logger.error(`Tebex API error for Transaction ID ${transactionId}: HTTP ${status} - ${errorMessage}`);
+          return { success: false, error: errorMessage, type: 'unknown', status };
+        }
+
+        const errorMessage = error.response.data?.error || error.response.statusText || `Tebex API unavailable (HTTP ${status})`;
+        logger.warn(`Tebex API error for Transaction ID ${transactionId}: HTTP ${status} - ${errorMessage} (attempt ${attempt + 1}/${maxRetries + 1})`);
+
+        lastError = { success: false, error: errorMessage, type: 'transient', status };
+        retryDelay = parseRetryAfter(error.response.headers?.['retry-after']);
       } else {
-        const errorMessage = error.response.data?.error || error.response.statusText || `Unknown Tebex API error (HTTP ${error.response.status})`;
-        logger.error(`Tebex API error for Transaction ID ${transactionId}: HTTP ${error.response.status} - ${errorMessage}`);
-        return { success: false, error: errorMessage };
+        const errorMessage = `Network or unexpected error retrieving purchase for Transaction ID ${transactionId}: ${error.message}`;
+        logger.warn(errorMessage, `(attempt ${attempt + 1}/${maxRetries + 1})`);
+
+        lastError = { success: false, error: errorMessage, type: 'transient' };
       }
-    } else {
-      const errorMessage = `Network or unexpected error retrieving purchase for Transaction ID ${transactionId}: ${error.message}`;
-      logger.error(errorMessage, error.message);
-      return { success: false, error: errorMessage };
     }
+
+    if (breaker.recordFailure()) {
+      logger.error('Too many failed requests to the Tebex API, circuit opened.');
+      break;
+    }
+
+    if (attempt === maxRetries) break;
+
+    if (retryDelay !== null && retryDelay > MAX_RETRY_DELAY) {
+      logger.warn(`Tebex asked to retry in ${Math.ceil(retryDelay / 1000)}s, giving up on Transaction ID ${transactionId}.`);
+      break;
+    }
+
+    await sleep(retryDelay ?? getBackoffDelay(attempt));
   }
+
+  logger.error(`Unable to retrieve purchase for Transaction ID ${transactionId}: ${lastError?.error}`);
+
+  return lastError ?? { success: false, error: 'Tebex is currently unavailable, please try again later.', type: 'transient' };
 }
@@ -1,6 +1,7 @@
-import { DiscordClient, TebexAPIError, TebexPayment, TicketCategory, TicketCategoryData } from "@types";
+import { DiscordClient, TebexAPIError, TebexPayment, TicketAttachment, TicketCategory, TicketCategoryData } from "@types";
 import {
   ActionRowBuilder,
+  AttachmentBuilder,
   APIEmbedField,
   ButtonBuilder,
   ButtonInteraction,
@@ -22,6 +23,7 @@ import {
   User,
 } from "discord.js";
 import Tebex from "./tebex_handler";
+import TranscriptManager from "./transcript_handler";
 import Logger from "../utils/logger";
 import env from "../utils/config";
 import { FormatDateForDB, tbxIdRegex } from "../utils/utils";
@@ -224,7 +226,9 @@ class Ticket {
 
       if (!purchase.success) {
         modalInteraction.editReply({
-          content: `This ticket requires a **valid** transaction id for a purchase.`
+          content: purchase.type === 'transient'
+            ? `Tebex is currently unavailable so your transaction id could not be verified, please try again later.`
+            : `This ticket requires a **valid** transaction id for a purchase.`
         });
 
         return;
@@ -384,8 +388,20 @@ class Ticket {
 
     const success = await ticket.closeTicket(interaction.user, closureReason);
 
+    let transcript: AttachmentBuilder | null = null;
+
     if (success) {
       this.ActiveTickets.delete(channelId);
+
+      try {
+        transcript = await TranscriptManager.build(ticket.ticketId);
+
+        if (transcript) {
+          await TranscriptManager.post(interaction.client, ticket.ticketId, transcript, interaction.user.id, closureReason);
+        }
+      } catch (err) {
+        logger.error(`Unable to generate transcript of ticket ${ticket.ticketId}: ${(err as Error).message}`);
+      }
     }
 
     await modalInteraction.deleteReply();
@@ -419,6 +435,13 @@ class Ticket {
       await user.send({
         embeds: [closureEmbed],
       })
+
+      // Sent on its own so a refused file doesn't cost the user the closure notice
+      if (transcript) {
+        await user.send({
+          files: [transcript],
+        }).catch((err) => logger.error(`Unable to send transcript to user: ${(err as Error).message}`));
+      }
     } catch (err) {
       logger.error(`Unable to send closure notification to user: ${(err as Error).message}`);
     }
@@ -435,7 +458,10 @@ class Ticket {
     this.ticketId = ticketId;
   }
 
-  async handleNewMessage(message: Message) {
+  /**
+   * Stored content of a message, its embeds are appended as `<EMBED:json>` markers.
+   */
+  private static formatContent(message: Message): string {
     let content = message.content;
 
     if (message.embeds.length > 0) {
@@ -446,19 +472,66 @@ class Ticket {
       content += `${content.length > 0 ? '\n\n' : ''}${embeds.join('\n')}`;
     }
 
+    return content;
+  }
+
+  async handleNewMessage(message: Message) {
     const { author } = message;
 
+    const attachments: TicketAttachment[] = message.attachments.map((attachment) => ({
+      name: attachment.name,
+      url: attachment.url,
+      contentType: attachment.contentType,
+      size: attachment.size,
+    }));
+
     await prisma.ticketMessages.create({
       data: {
         ticket: this.ticketId,
         authorId: author.id,
         displayName: author.displayName,
+        messageId: message.id,
         avatar: author.avatarURL({ forceStatic: true, extension: 'webp', size: 128 }),
-        content: content,
+        content: Ticket.formatContent(message),
+        attachments: attachments.length > 0 ? JSON.stringify(attachments) : null,
       }
     });
   }
 
+  /**
+   * Updates a stored message after an edit, the content it was first sent with is kept for transcripts.
+   */
+  async handleMessageUpdate(message: Message) {
+    const stored = await prisma.ticketMessages.findFirst({
+      where: {
+        ticket: this.ticketId,
+        messageId: message.id,
+      },
+    });
+
+    if (!stored) return;
+
+    const content = Ticket.formatContent(message);
+
+    if (content === stored.content) return;
+
+    // Link previews resolving also update messages, those aren't edits
+    const edited = message.editedAt !== null;
+
+    await prisma.ticketMessages.update({
+      where: {
+        id: stored.id,
+      },
+      data: {
+        content,
+        ...(edited && {
+          originalContent: stored.originalContent ?? stored.content,
+          editedAt: message.editedAt,
+        }),
+      },
+    });
+  }
+
   async addTicketParticipant(addedUser: User, userWhoAddedTheOtherUserNiceVariableName: User) {
     try {
       await prisma.ticketMembers.upsert({
@@ -0,0 +1,467 @@
+import axios from "axios";
+import { APIEmbed, AttachmentBuilder, Client, EmbedBuilder, TextChannel } from "discord.js";
+import { TicketAttachment } from "@types";
+import Logger from "../utils/logger";
+import SettingsManager from "./settings_handler";
+import { prisma } from "../utils/prisma";
+import { GetUnixSecondsFromDate } from "../utils/utils";
+
+const logger = new Logger('Transcripts');
+
+const EMBED_MARKER = '<EMBED:';
+
+// Images are inlined so the transcript outlives discord's expiring attachment links, within a budget
+// keeping the file (base64 adds a third) well under discord's 10 MB upload limit
+const MAX_INLINE_IMAGE = 1024 * 1024;
+const MAX_INLINE_TOTAL = 4 * 1024 * 1024;
+const MAX_TRANSCRIPT_SIZE = 8 * 1024 * 1024;
+
+const STYLE = `
+body { background: #313338; color: #dbdee1; font-family: "gg sans", "Helvetica Neue", Helvetica, Arial, sans-serif; font-size: 15px; margin: 0; }
+header { background: #2b2d31; padding: 16px 24px; border-bottom: 1px solid #1e1f22; }
+header h1 { margin: 0 0 8px; font-size: 20px; color: #f2f3f5; }
+header dl { display: grid; grid-template-columns: max-content auto; gap: 4px 16px; margin: 0; font-size: 14px; }
+header dt { color: #949ba4; }
+header dd { margin: 0; }
+main { padding: 16px 24px; }
+.message { display: flex; gap: 16px; padding: 8px 0; }
+.avatar { width: 40px; height: 40px; border-radius: 50%; flex-shrink: 0; background: #5865f2; }
+.body { min-width: 0; flex: 1; }
+.author { font-weight: 600; color: #f2f3f5; }
+.time, .edited { color: #949ba4; font-size: 12px; margin-left: 6px; }
+.content { white-space: pre-wrap; word-wrap: break-word; margin-top: 2px; }
+.content code { background: #2b2d31; border-radius: 3px; padding: 0 3px; font-family: Consolas, monospace; }
+.content pre { background: #2b2d31; border: 1px solid #1e1f22; border-radius: 4px; padding: 8px; white-space: pre-wrap; font-family: Consolas, monospace; }
+.content blockquote { border-left: 4px solid #4e5058; margin: 0; padding-left: 8px; }
+.mention { background: rgba(88, 101, 242, .3); color: #c9cdfb; border-radius: 3px; padding: 0 2px; }
+details { color: #949ba4; font-size: 13px; margin-top: 4px; }
+.embed { border-left: 4px solid #1e1f22; background: #2b2d31; border-radius: 4px; padding: 8px 16px 12px 12px; margin-top: 6px; max-width: 520px; }
+.embed-author { display: flex; align-items: center; gap: 8px; font-size: 14px; font-weight: 600; margin-top: 4px; }
+.embed-author img { width: 24px; height: 24px; border-radius: 50%; }
+.embed-title { font-weight: 600; color: #f2f3f5; margin-top: 6px; }
+.embed-title a { color: #00a8fc; }
+.embed-description { margin-top: 6px; font-size: 14px; white-space: pre-wrap; }
+.embed-fields { display: grid; grid-template-columns: repeat(3, 1fr); gap: 8px; margin-top: 8px; }
+.embed-field { grid-column: 1 / -1; font-size: 14px; }
+.embed-field.inline { grid-column: auto; }
+.embed-field-name { font-weight: 600; color: #f2f3f5; }
+.embed-field-value { white-space: pre-wrap; }
+.embed-thumbnail { float: right; max-width: 80px; max-height: 80px; border-radius: 4px; margin-left: 16px; }
+.embed-image { display: block; max-width: 100%; border-radius: 4px; margin-top: 12px; }
+.embed-footer { display: flex; align-items: center; gap: 8px; font-size: 12px; color: #949ba4; margin-top: 8px; }
+.embed-footer img { width: 20px; height: 20px; border-radius: 50%; }
+.attachment { margin-top: 6px; }
+.attachment img { max-width: 400px; max-height: 300px; border-radius: 4px; display: block; }
+.attachment a { display: inline-block; background: #2b2d31; border: 1px solid #1e1f22; border-radius: 4px; padding: 8px 12px; color: #00a8fc; }
+`;
+
+interface TranscriptMessage {
+  authorId: string;
+  displayName: string;
+  avatar: string | null;
+  content: string | null;
+  originalContent: string | null;
+  attachments: string | null;
+  editedAt: Date | null;
+  sentAt: Date;
+}
+
+interface TranscriptTicket {
+  ticketName: string;
+  userId: string;
+  userUsername: string;
+  userDisplayName: string;
+  openedAt: Date;
+  closedAt: Date | null;
+  ticketCategory: { name: string };
+  messages: TranscriptMessage[];
+}
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const formatDate = (date: Date) => `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+const formatSize = (bytes: number) => bytes >= 1024 * 1024
+  ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+  : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+class TranscriptManager {
+  /**
+   * Splits a stored message into its text and the embeds saved as `<EMBED:json>` markers.
+   * Markers are matched on balanced braces, as embed contents may contain `>` themselves.
+   */
+  public static splitEmbeds(content: string): { text: string; embeds: APIEmbed[] } {
+    const embeds: APIEmbed[] = [];
+    let text = '';
+    let cursor = 0;
+
+    while (cursor < content.length) {
+      const start = content.indexOf(EMBED_MARKER, cursor);
+
+      if (start === -1) {
+        text += content.slice(cursor);
+        break;
+      }
+
+      text += content.slice(cursor, start);
+
+      const jsonStart = start + EMBED_MARKER.length;
+      const jsonEnd = this.findJsonEnd(content, jsonStart);
+
+      if (jsonEnd === -1 || content[jsonEnd] !== '>') {
+        text += content.slice(start, jsonStart);
+        cursor = jsonStart;
+        continue;
+      }
+
+      try {
+        embeds.push(JSON.parse(content.slice(jsonStart, jsonEnd)) as APIEmbed);
+      } catch {
+        text += content.slice(start, jsonEnd + 1);
+      }
+
+      cursor = jsonEnd + 1;
+    }
+
+    return { text: text.trim(), embeds };
+  }
+
+  /**
+   * @returns index right after the JSON object starting at `start`, -1 if it isn't closed
+   */
+  private static findJsonEnd(content: string, start: number): number {
+    if (content[start] !== '{') return -1;
+
+    let depth = 0;
+    let inString = false;
+
+    for (let idx = start; idx < content.length; idx++) {
+      const char = content[idx];
+
+      if (inString) {
+        if (char === '\\') idx++;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        depth--;
+        if (depth === 0) return idx + 1;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Generates a self-contained HTML transcript of a ticket, from the messages stored while it was open.
+   *
+   * @param ticketId ticket id
+   * @returns transcript file, null if the ticket doesn't exist
+   */
+  public static async build(ticketId: number): Promise<AttachmentBuilder | null> {
+    const ticket = await prisma.tickets.findUnique({
+      where: {
+        id: ticketId,
+      },
+      include: {
+        ticketCategory: {
+          select: {
+            name: true,
+          },
+        },
+        messages: {
+          orderBy: {
+            sentAt: 'asc',
+          },
+        },
+      },
+    });
+
+    if (!ticket) return null;
+
+    const names = new Map<string, string>([[ticket.userId, ticket.userDisplayName]]);
+    for (const { authorId, displayName } of ticket.messages) names.set(authorId, displayName);
+
+    let html = await this.render(ticket, names, new ImageInliner(MAX_INLINE_TOTAL));
+
+    if (Buffer.byteLength(html, 'utf-8') > MAX_TRANSCRIPT_SIZE) {
+      logger.warn(`Transcript of ticket ${ticketId} is too large, images are linked instead of inlined.`);
+      html = await this.render(ticket, names, new ImageInliner(0));
+    }
+
+    if (Buffer.byteLength(html, 'utf-8') > MAX_TRANSCRIPT_SIZE) {
+      logger.error(`Transcript of ticket ${ticketId} exceeds the upload limit even without images.`);
+      return null;
+    }
+
+    return new AttachmentBuilder(Buffer.from(html, 'utf-8'), {
+      name: `transcript-${ticket.ticketName}.html`,
+      description: `Transcript of ticket ${ticket.ticketName}`,
+    });
+  }
+
+  private static async render(ticket: TranscriptTicket, names: Map<string, string>, images: ImageInliner): Promise<string> {
+    const messages: string[] = [];
+    for (const message of ticket.messages) {
+      messages.push(await this.renderMessage(message, names, images));
+    }
+
+    return '<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="utf-8">\n' +
+      `<title>${escapeHtml(ticket.ticketName)}</title>\n<style>${STYLE}</style>\n</head>\n<body>\n` +
+      '<header>\n' +
+      `<h1>#${escapeHtml(ticket.ticketName)}</h1>\n<dl>\n` +
+      `<dt>Category</dt><dd>${escapeHtml(ticket.ticketCategory.name)}</dd>\n` +
+      `<dt>Opened by</dt><dd>${escapeHtml(ticket.userDisplayName)} (${escapeHtml(ticket.userUsername)} - ${escapeHtml(ticket.userId)})</dd>\n` +
+      `<dt>Opened</dt><dd>${formatDate(ticket.openedAt)}</dd>\n` +
+      `<dt>Closed</dt><dd>${ticket.closedAt ? formatDate(ticket.closedAt) : 'Open'}</dd>\n` +
+      `<dt>Messages</dt><dd>${ticket.messages.length}</dd>\n` +
+      '</dl>\n</header>\n' +
+      `<main>\n${messages.join('\n')}\n</main>\n</body>\n</html>\n`;
+  }
+
+  /**
+   * Posts a transcript to the `ticket_transcript_channel`.
+   *
+   * @returns {boolean} the transcript was posted
+   */
+  public static async post(client: Client, ticketId: number, transcript: AttachmentBuilder, closedBy: string, reason: string | undefined): Promise<boolean> {
+    const channelId = SettingsManager.get<string>('ticket_transcript_channel');
+    if (!channelId) return false;
+
+    const channel = await client.channels.fetch(channelId).catch(() => null) as TextChannel | null;
+
+    if (!channel || !channel.isTextBased()) {
+      logger.error(`Unable to post transcript, ticket_transcript_channel (${channelId}) is invalid.`);
+      return false;
+    }
+
+    const ticket = await prisma.tickets.findUnique({
+      where: {
+        id: ticketId,
+      },
+      include: {
+        ticketCategory: {
+          select: {
+            name: true,
+          },
+        },
+        _count: {
+          select: {
+            messages: true,
+          },
+        },
+      },
+    });
+
+    if (!ticket) return false;
+
+    const embed = new EmbedBuilder()
+      .setTitle(`Ticket closed: ${ticket.ticketName}`)
+      .setColor(0x5865F2)
+      .addFields(
+        { name: 'Category', value: ticket.ticketCategory.name, inline: true },
+        { name: 'Opened by', value: `<@${ticket.userId}>`, inline: true },
+        { name: 'Closed by', value: `<@${closedBy}>`, inline: true },
+        { name: 'Opened', value: `<t:${GetUnixSecondsFromDate(ticket.openedAt)}:f>`, inline: true },
+        { name: 'Messages', value: `${ticket._count.messages}`, inline: true },
+        { name: 'Reason', value: reason ? reason.slice(0, 1024) : 'No reason provided.', inline: false },
+      )
+      .setTimestamp();
+
+    try {
+      await channel.send({ embeds: [embed], files: [transcript], allowedMentions: { parse: [] } });
+      return true;
+    } catch (err) {
+      logger.error(`Unable to post transcript of ticket ${ticketId}:`, (err as Error).message);
+    }
+
+    // The closure is still logged when the file is refused
+    embed.setFooter({ text: 'The transcript could not be attached.' });
+
+    await channel.send({ embeds: [embed], allowedMentions: { parse: [] } })
+      .catch((err) => logger.error(`Unable to post closure of ticket ${ticketId}:`, (err as Error).message));
+
+    return false;
+  }
+
+  private static async renderMessage(message: TranscriptMessage, names: Map<string, string>, images: ImageInliner): Promise<string> {
+    const { text, embeds } = this.splitEmbeds(message.content ?? '');
+
+    const attachments: TicketAttachment[] = message.attachments ? JSON.parse(message.attachments) : [];
+
+    const avatar = message.avatar ? await images.inline(message.avatar) : null;
+
+    let html = '<div class="message">' +
+      (avatar ? `<img class="avatar" src="${escapeHtml(avatar)}" alt="">` : '<div class="avatar"></div>') +
+      '<div class="body">' +
+      `<span class="author">${escapeHtml(message.displayName)}</span>` +
+      `<span class="time">${formatDate(message.sentAt)}</span>` +
+      (message.editedAt ? `<span class="edited">(edited ${formatDate(message.editedAt)})</span>` : '');
+
+    if (text) html += `<div class="content">${this.renderMarkdown(text, names)}</div>`;
+
+    if (message.originalContent !== null && message.editedAt) {
+      const original = this.splitEmbeds(message.originalContent).text;
+      html += `<details><summary>Original message</summary><div class="content">${this.renderMarkdown(original || '(empty)', names)}</div></details>`;
+    }
+
+    for (const embed of embeds) {
+      html += await this.renderEmbed(embed, names, images);
+    }
+
+    for (const attachment of attachments) {
+      const isImage = attachment.contentType?.startsWith('image/') ?? false;
+      const inlined = isImage && attachment.size <= MAX_INLINE_IMAGE ? await images.inline(attachment.url) : null;
+
+      html += '<div class="attachment">' + (
+        inlined
+          ? `<img src="${escapeHtml(inlined)}" alt="${escapeHtml(attachment.name)}">`
+          : `<a href="${escapeHtml(attachment.url)}">${escapeHtml(attachment.name)} (${formatSize(attachment.size)})</a>`
+      ) + '</div>';
+    }
+
+    return html + '</div></div>';
+  }
+
+  private static async renderEmbed(embed: APIEmbed, names: Map<string, string>, images: ImageInliner): Promise<string> {
+    const color = embed.color !== undefined ? `#${embed.color.toString(16).padStart(6, '0')}` : '#1e1f22';
+
+    let html = `<div class="embed" style="border-left-color: ${color}">`;
+
+    if (embed.thumbnail?.url) {
+      const thumbnail = await images.inline(embed.thumbnail.url);
+      html += `<img class="embed-thumbnail" src="${escapeHtml(thumbnail)}" alt="">`;
+    }
+
+    if (embed.author?.name) {
+      const icon = embed.author.icon_url ? await images.inline(embed.author.icon_url) : null;
+      html += `<div class="embed-author">${icon ? `<img src="${escapeHtml(icon)}" alt="">` : ''}${escapeHtml(embed.author.name)}</div>`;
+    }
+
+    if (embed.title) {
+      const title = this.renderMarkdown(embed.title, names);
+      html += `<div class="embed-title">${embed.url ? `<a href="${escapeHtml(embed.url)}">${title}</a>` : title}</div>`;
+    }
+
+    if (embed.description) html += `<div class="embed-description">${this.renderMarkdown(embed.description, names)}</div>`;
+
+    if (embed.fields && embed.fields.length > 0) {
+      html += '<div class="embed-fields">' + embed.fields.map(({ name, value, inline }) => (
+        `<div class="embed-field${inline ? ' inline' : ''}">` +
+        `<div class="embed-field-name">${this.renderMarkdown(name, names)}</div>` +
+        `<div class="embed-field-value">${this.renderMarkdown(value, names)}</div></div>`
+      )).join('') + '</div>';
+    }
+
+    if (embed.image?.url) {
+      const image = await images.inline(embed.image.url);
+      html += `<img class="embed-image" src="${escapeHtml(image)}" alt="">`;
+    }
+
+    if (embed.footer?.text || embed.timestamp) {
+      const icon = embed.footer?.icon_url ? await images.inline(embed.footer.icon_url) : null;
+      const parts = [
+        embed.footer?.text ? escapeHtml(embed.footer.text) : null,
+        embed.timestamp && !isNaN(Date.parse(embed.timestamp)) ? formatDate(new Date(embed.timestamp)) : null,
+      ].filter(Boolean);
+
+      html += `<div class="embed-footer">${icon ? `<img src="${escapeHtml(icon)}" alt="">` : ''}${parts.join(' • ')}</div>`;
+    }
+
+    return html + '</div>';
+  }
+
+  /**
+   * Renders the subset of discord's markdown used in tickets: code blocks, inline code, bold, italic,
+   * underline, strikethrough, quotes, links, mentions and timestamps.
+   */
+  private static renderMarkdown(value: string, names: Map<string, string>): string {
+    const codeBlocks: string[] = [];
+
+    // Code is extracted first so its content isn't formatted
+    let html = escapeHtml(value)
+      .replace(/```(?:[a-z0-9]+\n)?([\s\S]*?)```/gi, (_, code: string) => {
+        codeBlocks.push(`<pre>${code}</pre>`);
+        return `\u0000${codeBlocks.length - 1}\u0000`;
+      })
+      .replace(/`([^`\n]+)`/g, (_, code: string) => {
+        codeBlocks.push(`<code>${code}</code>`);
+        return `\u0000${codeBlocks.length - 1}\u0000`;
+      });
+
+    html = html
+      .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+      .replace(/__(.+?)__/g, '<u>$1</u>')
+      .replace(/\*(.+?)\*/g, '<em>$1</em>')
+      .replace(/~~(.+?)~~/g, '<s>$1</s>')
+      .replace(/^&gt; (.*)$/gm, '<blockquote>$1</blockquote>')
+      .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '<a href="$2">$1</a>')
+      .replace(/&lt;@!?(\d+)&gt;/g, (_, id: string) => `<span class="mention">@${escapeHtml(names.get(id) ?? id)}</span>`)
+      .replace(/&lt;@&amp;(\d+)&gt;/g, '<span class="mention">@role</span>')
+      .replace(/&lt;#(\d+)&gt;/g, '<span class="mention">#channel</span>')
+      .replace(/&lt;t:(\d+)(?::[a-zA-Z])?&gt;/g, (match: string, seconds: string) => {
+        const date = new Date(parseInt(seconds, 10) * 1000);
+        return isNaN(date.getTime()) ? match : formatDate(date);
+      });
+
+    // eslint-disable-next-line no-control-regex
+    return html.replace(/\u0000(\d+)\u0000/g, (_, idx: string) => codeBlocks[parseInt(idx, 10)]);
+  }
+}
+
+/**
+ * Downloads images once per transcript and turns them into data URIs, falling back on the original
+ * link when the download fails or the transcript grows too large.
+ */
+class ImageInliner {
+  private cache = new Map<string, string>();
+  private totalSize = 0;
+  private budget: number;
+
+  /**
+   * @param budget total size of the images that can be inlined, in bytes
+   */
+  constructor(budget: number) {
+    this.budget = budget;
+  }
+
+  async inline(url: string): Promise<string> {
+    const cached = this.cache.get(url);
+    if (cached) return cached;
+
+    let result = url;
+
+    if (/^https?:\/\//.test(url) && this.totalSize < this.budget) {
+      try {
+        const response = await axios.get<ArrayBuffer>(url, {
+          responseType: 'arraybuffer',
+          timeout: 5000,
+          maxContentLength: MAX_INLINE_IMAGE,
+        });
+
+        const contentType = String(response.headers['content-type'] ?? '');
+
+        const data = Buffer.from(response.data);
+
+        if (contentType.startsWith('image/') && this.totalSize + data.length <= this.budget) {
+          this.totalSize += data.length;
+          result = `data:${contentType};base64,${data.toString('base64')}`;
+        }
+      } catch (err) {
+        logger.warn(`Unable to inline ${url}:`, (err as Error).message);
+      }
+    }
+
+    this.cache.set(url, result);
+    return result;
+  }
+}
+
+export default TranscriptManager;
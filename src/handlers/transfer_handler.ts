@@ -0,0 +1,484 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, EmbedBuilder, TextChannel, User } from "discord.js";
+import { DiscordClient, TransferStatus } from "@types";
+import { PurchaseTransfers } from "@prisma/client";
+import Logger from "../utils/logger";
+import SettingsManager from "./settings_handler";
+import PurchaseManager from "./purchase_handler";
+import BlacklistManager from "./blacklist_handler";
+import AuditLogManager from "./audit_handler";
+import { prisma } from "../utils/prisma";
+import { GetUnixSecondsFromDate } from "../utils/utils";
+
+const logger = new Logger('Transfers');
+
+export const TRANSFER_APPROVE_PREFIX = 'transfer-approve:';
+export const TRANSFER_DENY_PREFIX = 'transfer-deny:';
+
+type TransferResult = { success: true; transfer: PurchaseTransfers } | { success: false; error: string };
+
+class TransferManager {
+  private static discordClient: DiscordClient;
+
+  public static setDiscordClient(client: DiscordClient) {
+    this.discordClient = client;
+  }
+
+  /**
+   * Requests the transfer of a purchase to another account. With `transfer_requires_approval` enabled the
+   * request is posted to the `transfer_review_channel` queue, otherwise the purchase is moved right away.
+   *
+   * @param transactionId tebex transaction id, must be owned by `from`
+   * @param from current owner
+   * @param to account receiving the purchase
+   */
+  public static async request(transactionId: string, from: User, to: User): Promise<TransferResult> {
+    const refusal = await this.checkLimits(transactionId);
+
+    if (refusal) return { success: false, error: refusal };
+
+    if (SettingsManager.get<number>('transfer_requires_approval') !== 1) {
+      const error = await this.moveTransaction(transactionId, from.id, to.id, 'Purchase transferred');
+
+      if (error) return { success: false, error };
+
+      const transfer = await prisma.purchaseTransfers.create({
+        data: {
+          tbxId: transactionId,
+          fromDiscordId: from.id,
+          toDiscordId: to.id,
+          status: 'approved',
+          completedAt: new Date(),
+        },
+      });
+
+      await AuditLogManager.record({
+        action: 'transfer',
+        actorId: from.id,
+        targetId: to.id,
+        tbxId: transactionId,
+        reason: `Transferred from ${from.id}`,
+      });
+
+      logger.success(`${transactionId} was transferred from ${from.username} (${from.id}) to ${to.username} (${to.id})`);
+
+      return { success: true, transfer };
+    }
+
+    const transfer = await prisma.purchaseTransfers.create({
+      data: {
+        tbxId: transactionId,
+        fromDiscordId: from.id,
+        toDiscordId: to.id,
+      },
+    });
+
+    const message = await this.postReview(transfer, from, to);
+
+    if (!message) {
+      await this.setStatus(transfer.id, 'cancelled');
+      return { success: false, error: 'Transfers require a staff review but the review queue is unavailable, please contact the server staff.' };
+    }
+
+    const pending = await prisma.purchaseTransfers.update({
+      where: {
+        id: transfer.id,
+      },
+      data: {
+        reviewChannelId: message.channelId,
+        reviewMessageId: message.id,
+      },
+    });
+
+    logger.info(`${from.username} (${from.id}) requested the transfer of ${transactionId} to ${to.username} (${to.id})`);
+
+    return { success: true, transfer: pending };
+  }
+
+  /**
+   * Moves the purchase of a pending transfer to the new account. The blacklist and the transfer limits
+   * are checked again, as they may have changed since the request.
+   *
+   * @returns message to display to the reviewer
+   */
+  public static async approve(transferId: number, staff: User): Promise<string> {
+    const transfer = await this.getPendingTransfer(transferId);
+
+    if (typeof transfer === 'string') return transfer;
+
+    const blacklisted = await BlacklistManager.check({ discordId: transfer.fromDiscordId }, { discordId: transfer.toDiscordId });
+
+    const refusal = blacklisted
+      ? 'One of the accounts was blacklisted since the request.'
+      : await this.checkLimits(transfer.tbxId, transfer.id);
+
+    if (refusal) {
+      await this.setStatus(transfer.id, 'cancelled');
+      this.notify(transfer.fromDiscordId, `Your request to transfer \`${transfer.tbxId}\` to <@${transfer.toDiscordId}> was cancelled: ${refusal}`);
+
+      return blacklisted
+        ? `The transfer was cancelled, \`${blacklisted.type}\` \`${blacklisted.value}\` is blacklisted: ${blacklisted.reason}`
+        : `The transfer was cancelled: ${refusal}`;
+    }
+
+    const transaction = await prisma.transactions.findUnique({
+      where: {
+        tbxId: transfer.tbxId,
+      },
+      select: {
+        refund: true,
+        chargeback: true,
+      },
+    });
+
+    const error = transaction && (transaction.refund === 1 || transaction.chargeback === 1)
+      ? `This purchase was ${transaction.chargeback === 1 ? 'chargebacked' : 'refunded'} since the request.`
+      : await this.moveTransaction(transfer.tbxId, transfer.fromDiscordId, transfer.toDiscordId, `Purchase transfer approved by ${staff.username}`);
+
+    if (error) {
+      await this.setStatus(transfer.id, 'cancelled');
+      this.notify(transfer.fromDiscordId, `Your request to transfer \`${transfer.tbxId}\` to <@${transfer.toDiscordId}> was cancelled: ${error}`);
+      return `The transfer was cancelled: ${error}`;
+    }
+
+    await prisma.purchaseTransfers.update({
+      where: {
+        id: transfer.id,
+      },
+      data: {
+        status: 'approved',
+        reviewedBy: staff.id,
+        completedAt: new Date(),
+      },
+    });
+
+    await AuditLogManager.record({
+      action: 'transfer',
+      actorId: staff.id,
+      targetId: transfer.toDiscordId,
+      tbxId: transfer.tbxId,
+      reason: `Transferred from ${transfer.fromDiscordId}, requested by the owner`,
+    });
+
+    this.notify(transfer.fromDiscordId, `Your request to transfer \`${transfer.tbxId}\` to <@${transfer.toDiscordId}> was approved.`);
+    this.notify(transfer.toDiscordId, `The purchase \`${transfer.tbxId}\` was transferred to you by <@${transfer.fromDiscordId}>.`);
+
+    logger.success(`Transfer #${transfer.id} of ${transfer.tbxId} was approved by ${staff.username} (${staff.id})`);
+
+    return `Approved by <@${staff.id}>.`;
+  }
+
+  /**
+   * @returns message to display to the reviewer
+   */
+  public static async deny(transferId: number, staff: User): Promise<string> {
+    const transfer = await this.getPendingTransfer(transferId);
+
+    if (typeof transfer === 'string') return transfer;
+
+    await prisma.purchaseTransfers.update({
+      where: {
+        id: transfer.id,
+      },
+      data: {
+        status: 'denied',
+        reviewedBy: staff.id,
+      },
+    });
+
+    await AuditLogManager.record({
+      action: 'transfer_deny',
+      actorId: staff.id,
+      targetId: transfer.fromDiscordId,
+      tbxId: transfer.tbxId,
+      reason: `Transfer to ${transfer.toDiscordId} refused`,
+    });
+
+    this.notify(transfer.fromDiscordId, `Your request to transfer \`${transfer.tbxId}\` to <@${transfer.toDiscordId}> was denied by the staff.`);
+
+    logger.info(`Transfer #${transfer.id} of ${transfer.tbxId} was denied by ${staff.username} (${staff.id})`);
+
+    return `Denied by <@${staff.id}>.`;
+  }
+
+  /**
+   * Cancels the pending transfer requests of a purchase, i.e. when staff change its owner by hand.
+   *
+   * @param transactionId tebex transaction id
+   * @param reason reason given to the requester
+   * @returns amount of cancelled requests
+   */
+  public static async cancelPending(transactionId: string, reason: string): Promise<number> {
+    const pending = await prisma.purchaseTransfers.findMany({
+      where: {
+        tbxId: transactionId,
+        status: 'pending',
+      },
+    });
+
+    for (const transfer of pending) {
+      await this.setStatus(transfer.id, 'cancelled');
+      this.notify(transfer.fromDiscordId, `Your request to transfer \`${transfer.tbxId}\` to <@${transfer.toDiscordId}> was cancelled: ${reason}`);
+    }
+
+    if (pending.length > 0) logger.info(`Cancelled ${pending.length} pending transfer(s) of ${transactionId}: ${reason}`);
+
+    return pending.length;
+  }
+
+  /**
+   * Moves a purchase back to its owner before the transfer. Only the latest transfer of a purchase can be
+   * reverted, older ones have to be reverted one after the other.
+   *
+   * @returns message to display to the staff member
+   */
+  public static async revert(transferId: number, staff: User, reason: string | null): Promise<string> {
+    const transfer = await prisma.purchaseTransfers.findUnique({
+      where: {
+        id: transferId,
+      },
+    });
+
+    if (!transfer) return `Transfer #${transferId} was not found.`;
+
+    if (transfer.status !== 'approved') return `Transfer #${transfer.id} is ${transfer.status}, only approved transfers can be reverted.`;
+
+    const latest = await prisma.purchaseTransfers.findFirst({
+      where: {
+        tbxId: transfer.tbxId,
+        status: 'approved',
+      },
+      orderBy: {
+        completedAt: 'desc',
+      },
+      select: {
+        id: true,
+      },
+    });
+
+    if (latest && latest.id !== transfer.id) {
+      return `\`${transfer.tbxId}\` was transferred again since, revert transfer #${latest.id} first.`;
+    }
+
+    const error = await this.moveTransaction(transfer.tbxId, transfer.toDiscordId, transfer.fromDiscordId, `Purchase transfer reverted by ${staff.username}`);
+
+    if (error) return error;
+
+    await prisma.purchaseTransfers.update({
+      where: {
+        id: transfer.id,
+      },
+      data: {
+        status: 'reverted',
+        revertedBy: staff.id,
+        revertedAt: new Date(),
+        reason,
+      },
+    });
+
+    await AuditLogManager.record({
+      action: 'transfer_revert',
+      actorId: staff.id,
+      targetId: transfer.fromDiscordId,
+      tbxId: transfer.tbxId,
+      reason: `Moved back from ${transfer.toDiscordId}${reason ? `: ${reason}` : ''}`,
+    });
+
+    logger.success(`Transfer #${transfer.id} of ${transfer.tbxId} was reverted by ${staff.username} (${staff.id})`);
+
+    return `\`${transfer.tbxId}\` was moved back from <@${transfer.toDiscordId}> to <@${transfer.fromDiscordId}>.`;
+  }
+
+  /**
+   * Lists every transfer request of a purchase, newest first.
+   */
+  public static async history(transactionId: string): Promise<PurchaseTransfers[]> {
+    return await prisma.purchaseTransfers.findMany({
+      where: {
+        tbxId: transactionId,
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+  }
+
+  /**
+   * Checks the pending requests, `max_transfers` and `transfer_cooldown` (hours) of a purchase.
+   * Reverted transfers don't count towards either limit.
+   *
+   * @param transactionId tebex transaction id
+   * @param reviewedTransferId pending transfer being approved, left out of the checks
+   * @returns reason of the refusal, null if the purchase can be transferred
+   */
+  private static async checkLimits(transactionId: string, reviewedTransferId?: number): Promise<string | null> {
+    const transfers = await prisma.purchaseTransfers.findMany({
+      where: {
+        tbxId: transactionId,
+        status: { in: ['pending', 'approved'] },
+        ...(reviewedTransferId !== undefined ? { id: { not: reviewedTransferId } } : {}),
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    if (transfers.some(({ status }) => status === 'pending')) {
+      return 'This purchase already has a transfer waiting for a staff review.';
+    }
+
+    const maxTransfers = SettingsManager.get<number>('max_transfers') ?? 0;
+
+    if (maxTransfers > 0 && transfers.length >= maxTransfers) {
+      return `This purchase reached the maximum amount of transfers (${maxTransfers}), please contact the server staff.`;
+    }
+
+    const cooldownHours = SettingsManager.get<number>('transfer_cooldown') ?? 0;
+    const lastTransfer = transfers.find(({ completedAt }) => completedAt !== null);
+
+    if (cooldownHours > 0 && lastTransfer) {
+      const availableAt = new Date(lastTransfer.completedAt!.getTime() + cooldownHours * 60 * 60 * 1000);
+
+      if (availableAt > new Date()) {
+        return `This purchase was transferred recently, it can be transferred again <t:${GetUnixSecondsFromDate(availableAt)}:R>.`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Links a purchase to another account, then updates the roles of both accounts.
+   *
+   * @returns reason of the failure, null if the purchase was moved
+   */
+  private static async moveTransaction(transactionId: string, fromDiscordId: string, toDiscordId: string, roleReason: string): Promise<string | null> {
+    const transaction = await prisma.transactions.findUnique({
+      where: {
+        tbxId: transactionId,
+      },
+      select: {
+        customer: {
+          select: {
+            id: true,
+            discordId: true,
+          },
+        },
+      },
+    });
+
+    if (!transaction) return `No purchase was found for: ${transactionId}`;
+
+    if (transaction.customer?.discordId !== fromDiscordId) {
+      return `This purchase is no longer linked to <@${fromDiscordId}>.`;
+    }
+
+    const newCustomerId = await PurchaseManager.getCustomerId(toDiscordId);
+
+    await prisma.transactions.update({
+      where: {
+        tbxId: transactionId,
+      },
+      data: {
+        customerId: newCustomerId,
+      },
+    });
+
+    await PurchaseManager.checkCustomerPurchases(transaction.customer.id)
+      .catch((err) => logger.error(`Unable to update the roles of ${fromDiscordId}:`, (err as Error).message));
+
+    await PurchaseManager.grantCustomerRoles(toDiscordId, newCustomerId, roleReason);
+
+    return null;
+  }
+
+  private static async postReview(transfer: PurchaseTransfers, from: User, to: User) {
+    const channelId = SettingsManager.get<string>('transfer_review_channel');
+    if (!channelId) return null;
+
+    const channel = await this.discordClient.channels.fetch(channelId).catch(() => null) as TextChannel | null;
+
+    if (!channel || !channel.isTextBased()) {
+      logger.error(`Unable to post transfer review, transfer_review_channel (${channelId}) is invalid.`);
+      return null;
+    }
+
+    const [packages, previousTransfers] = await Promise.all([
+      prisma.transactionPackages.findMany({
+        where: {
+          tbxId: transfer.tbxId,
+        },
+        select: {
+          package: true,
+        },
+      }),
+      prisma.purchaseTransfers.count({
+        where: {
+          tbxId: transfer.tbxId,
+          status: 'approved',
+        },
+      }),
+    ]);
+
+    const embed = new EmbedBuilder()
+      .setTitle('Purchase transfer request')
+      .setColor(0xFEE75C)
+      .addFields(
+        { name: 'Purchase', value: `\`${transfer.tbxId}\`\n${packages.map(({ package: packageName }) => packageName).join(', ').slice(0, 1000) || 'No packages'}`, inline: false },
+        { name: 'From', value: `<@${from.id}> (${from.username})`, inline: true },
+        { name: 'To', value: `<@${to.id}> (${to.username})`, inline: true },
+        { name: 'Previous transfers', value: `${previousTransfers}`, inline: true },
+      )
+      .setFooter({ text: `Transfer #${transfer.id}` })
+      .setTimestamp();
+
+    const buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`${TRANSFER_APPROVE_PREFIX}${transfer.id}`)
+        .setLabel('Approve')
+        .setStyle(ButtonStyle.Success),
+      new ButtonBuilder()
+        .setCustomId(`${TRANSFER_DENY_PREFIX}${transfer.id}`)
+        .setLabel('Deny')
+        .setStyle(ButtonStyle.Danger),
+    );
+
+    return await channel.send({ embeds: [embed], components: [buttons], allowedMentions: { parse: [] } })
+      .catch((err) => {
+        logger.error('Unable to post transfer review:', (err as Error).message);
+        return null;
+      });
+  }
+
+  private static async getPendingTransfer(transferId: number): Promise<PurchaseTransfers | string> {
+    const transfer = await prisma.purchaseTransfers.findUnique({
+      where: {
+        id: transferId,
+      },
+    });
+
+    if (!transfer) return `Transfer #${transferId} was not found.`;
+
+    if (transfer.status !== 'pending') return `Transfer #${transfer.id} was already ${transfer.status}.`;
+
+    return transfer;
+  }
+
+  private static async setStatus(transferId: number, status: TransferStatus) {
+    await prisma.purchaseTransfers.update({
+      where: {
+        id: transferId,
+      },
+      data: {
+        status,
+      },
+    });
+  }
+
+  private static notify(discordId: string, content: string) {
+    this.discordClient.users.fetch(discordId)
+      .then((user) => user.send({ content, allowedMentions: { parse: [] } }))
+      .catch((err) => logger.warn(`Unable to notify ${discordId} about a transfer:`, (err as Error).message));
+  }
+}
+
+export default TransferManager;
@@ -0,0 +1,229 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { Prisma } from "@prisma/client";
+import { TebexWebhook, TebexWebhookPaymentSubject } from "../../types";
+import Config from "../../utils/config";
+import Logger from "../../utils/logger";
+import { prisma } from "../../utils/prisma";
+import PurchaseManager from "../purchase_handler";
+import tebexHandler from "../tebex_handler";
+
+import verify_signature from "./verify_signature";
+
+const logger = new Logger('TEBEX-WEBHOOKS');
+
+const MAX_BODY_SIZE = 1024 * 1024;
+
+class WebhookHandler {
+  private static server: Server | null = null;
+
+  /**
+   * Starts the HTTP receiver for Tebex webhooks, does nothing unless `TEBEX_WEBHOOK_PORT` is set.
+   */
+  public static start() {
+    if (!Config.TEBEX_WEBHOOK_PORT) return;
+
+    if (!Config.TEBEX_WEBHOOK_SECRET) {
+      logger.error('TEBEX_WEBHOOK_PORT is set but TEBEX_WEBHOOK_SECRET is missing, webhooks receiver not started.');
+      return;
+    }
+
+    if (this.server) return;
+
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res)
+        .catch((err) => {
+          logger.error('Unhandled error while processing webhook:', (err as Error).message);
+          if (!res.headersSent) this.send(res, 500, { error: 'Internal error' });
+        });
+    });
+
+    this.server.listen(Config.TEBEX_WEBHOOK_PORT, () => {
+      logger.success(`Listening for Tebex webhooks on port ${Config.TEBEX_WEBHOOK_PORT} (${Config.TEBEX_WEBHOOK_PATH})`);
+    });
+
+    this.server.on('error', (err) => {
+      logger.error('Webhooks receiver error:', err.message);
+    });
+  }
+
+  public static stop() {
+    this.server?.close();
+    this.server = null;
+  }
+
+  private static async handleRequest(req: IncomingMessage, res: ServerResponse) {
+    const path = req.url?.split('?')[0];
+
+    if (path !== Config.TEBEX_WEBHOOK_PATH) {
+      this.send(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      this.send(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    let rawBody: Buffer;
+    try {
+      rawBody = await this.readBody(req);
+    } catch (err) {
+      this.send(res, 413, { error: (err as Error).message });
+      return;
+    }
+
+    const signature = req.headers['x-signature'];
+
+    if (!verify_signature(rawBody, Array.isArray(signature) ? signature[0] : signature, Config.TEBEX_WEBHOOK_SECRET as string)) {
+      logger.warn(`Rejected webhook with an invalid signature from ${req.socket.remoteAddress}`);
+      this.send(res, 403, { error: 'Invalid signature' });
+      return;
+    }
+
+    let webhook: TebexWebhook;
+    try {
+      webhook = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      this.send(res, 400, { error: 'Invalid JSON body' });
+      return;
+    }
+
+    if (!webhook || typeof webhook.id !== 'string' || typeof webhook.type !== 'string') {
+      this.send(res, 400, { error: 'Invalid webhook payload' });
+      return;
+    }
+
+    if (webhook.type === 'validation.webhook') {
+      logger.info('Answered Tebex webhook validation request');
+      this.send(res, 200, { id: webhook.id });
+      return;
+    }
+
+    if (!await this.claim(webhook)) {
+      logger.info(`Ignoring ${webhook.type} webhook (${webhook.id}), it was already received`);
+      this.send(res, 200, { id: webhook.id });
+      return;
+    }
+
+    let status = 'handled';
+    try {
+      await this.handleWebhook(webhook);
+    } catch (err) {
+      status = 'failed';
+      logger.error(`Unable to handle ${webhook.type} webhook (${webhook.id}), tebex will deliver it again:`, (err as Error).message);
+    }
+
+    await prisma.processedWebhooks.update({
+      where: {
+        webhookId: webhook.id,
+      },
+      data: {
+        status,
+      },
+    });
+
+    // Tebex redelivers the webhooks that weren't acknowledged with a 2xx
+    if (status === 'failed') {
+      this.send(res, 500, { error: 'Unable to handle the webhook' });
+      return;
+    }
+
+    this.send(res, 200, { id: webhook.id });
+  }
+
+  /**
+   * Records the webhook id before it is handled, so concurrent or repeated deliveries are only handled once.
+   * A webhook whose handling failed can be claimed again.
+   *
+   * @returns {boolean} the webhook was claimed and has to be handled
+   */
+  private static async claim(webhook: TebexWebhook): Promise<boolean> {
+    const subject = webhook.subject as TebexWebhookPaymentSubject | null;
+
+    try {
+      await prisma.processedWebhooks.create({
+        data: {
+          webhookId: webhook.id,
+          type: webhook.type,
+          tbxId: subject?.transaction_id ?? null,
+        },
+      });
+
+      return true;
+    } catch (err) {
+      if (!(err instanceof Prisma.PrismaClientKnownRequestError) || err.code !== 'P2002') throw err;
+    }
+
+    const { count } = await prisma.processedWebhooks.updateMany({
+      where: {
+        webhookId: webhook.id,
+        status: 'failed',
+      },
+      data: {
+        status: null,
+        processedAt: new Date(),
+      },
+    });
+
+    return count > 0;
+  }
+
+  private static async handleWebhook(webhook: TebexWebhook) {
+    const subject = webhook.subject as TebexWebhookPaymentSubject | null;
+    const transactionId = subject?.transaction_id;
+
+    if (!transactionId) {
+      logger.info(`Ignoring ${webhook.type} webhook (${webhook.id}), no transaction attached`);
+      return;
+    }
+
+    switch (webhook.type) {
+      case 'payment.refunded':
+        logger.info(`Handling refund webhook for ${transactionId}`);
+        await PurchaseManager.revokeTransaction(transactionId, 'refund');
+        break;
+      case 'payment.dispute.opened':
+      case 'payment.dispute.lost':
+        logger.info(`Handling ${webhook.type} webhook for ${transactionId}`);
+        await PurchaseManager.revokeTransaction(transactionId, 'chargeback');
+        break;
+      case 'payment.dispute.won':
+        logger.info(`Handling dispute won webhook for ${transactionId}`);
+        await PurchaseManager.restoreChargeback(transactionId);
+        break;
+      default:
+        tebexHandler.invalidatePurchase(transactionId);
+        logger.info(`Received ${webhook.type} webhook for ${transactionId}`);
+    }
+  }
+
+  private static readBody(req: IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+
+        if (size > MAX_BODY_SIZE) {
+          req.removeAllListeners('data');
+          req.resume();
+          reject(new Error('Payload too large'));
+          return;
+        }
+
+        chunks.push(chunk);
+      });
+
+      req.on('end', () => resolve(Buffer.concat(chunks)));
+      req.on('error', reject);
+    });
+  }
+
+  private static send(res: ServerResponse, status: number, body: object) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+export default WebhookHandler;
@@ -0,0 +1,24 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * Verifies the `X-Signature` header sent by Tebex, which is an HMAC-SHA256 (keyed with the
+ * webhook secret) of the SHA256 hex digest of the raw request body.
+ *
+ * @param rawBody unparsed request body
+ * @param signature value of the `X-Signature` header
+ * @param secret webhook secret from the Tebex creator panel
+ * @returns {boolean} the signature matches
+ */
+export default (rawBody: Buffer, signature: string | undefined, secret: string): boolean => {
+  if (!signature) return false;
+
+  const bodyHash = createHash('sha256').update(rawBody).digest('hex');
+  const expected = createHmac('sha256', secret).update(bodyHash).digest('hex');
+
+  const expectedBuffer = Buffer.from(expected, 'utf8');
+  const receivedBuffer = Buffer.from(signature.trim().toLowerCase(), 'utf8');
+
+  if (expectedBuffer.length !== receivedBuffer.length) return false;
+
+  return timingSafeEqual(expectedBuffer, receivedBuffer);
+}
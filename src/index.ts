@@ -8,6 +8,12 @@ import LoadCommands from './utils/initialisation/load_commands';
 import LoadEvents from './utils/initialisation/load_events';
 import LoadStaticMessages from './utils/initialisation/load_static_messages';
 import PurchaseManager from './handlers/purchase_handler';
+import WebhookHandler from './handlers/webhook_handler';
+import BlacklistManager from './handlers/blacklist_handler';
+import DeveloperInviteManager from './handlers/developer_invite_handler';
+import TransferManager from './handlers/transfer_handler';
+import ClaimGuardManager from './handlers/claim_guard_handler';
+import PrivacyManager from './handlers/privacy_handler';
 
 const client: DiscordClient = new Client({
   intents: [
@@ -31,5 +37,12 @@ LoadEvents(client);
 LoadStaticMessages(client);
 
 PurchaseManager.setDiscordClient(client);
+BlacklistManager.setDiscordClient(client);
+DeveloperInviteManager.setDiscordClient(client);
+TransferManager.setDiscordClient(client);
+ClaimGuardManager.setDiscordClient(client);
+PrivacyManager.setDiscordClient(client);
+
+client.once('ready', () => WebhookHandler.start());
 
 client.login(Config.DISCORD_BOT_TOKEN);
@@ -0,0 +1,51 @@
+/**
+ * - `claim`: a purchase was linked to a customer, through `/claimrole` or a purchase notification
+ * - `refund` / `chargeback`: a transaction or one of its packages was flagged
+ * - `link` / `unlink`: a transaction was linked to or detached from a customer by staff
+ * - `customer_revoke`: the customer role was removed, no active purchases left
+ * - `package_role_revoke`: package roles were removed, their packages are no longer active
+ * - `developer_add` / `developer_remove`: a developer was linked to or unlinked from a customer
+ * - `transfer`: a purchase was transferred to another account
+ * - `transfer_deny` / `transfer_revert`: a transfer was refused by staff, or moved back to the previous owner
+ * - `role_sync`: a customer or developer role was fixed by the role drift check
+ * - `role_restore`: roles were granted back to a member who rejoined the server
+ * - `expire`: the access granted by a time-limited purchase expired
+ * - `erase`: the data of a user was erased on their request
+ */
+export type AuditAction =
+  | 'claim'
+  | 'refund'
+  | 'chargeback'
+  | 'link'
+  | 'unlink'
+  | 'customer_revoke'
+  | 'package_role_revoke'
+  | 'developer_add'
+  | 'developer_remove'
+  | 'transfer'
+  | 'transfer_deny'
+  | 'transfer_revert'
+  | 'role_sync'
+  | 'role_restore'
+  | 'expire'
+  | 'erase';
+
+export interface AuditEntry {
+  action: AuditAction;
+  /** Discord id of the user behind the change, `system` for automated changes */
+  actorId: string;
+  targetId?: string | null;
+  tbxId?: string | null;
+  reason?: string | null;
+}
+
+export interface AuditFilters {
+  /** Matches entries where the user is either the actor or the target */
+  userId?: string;
+  tbxId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  /** Amount of newest matches to skip */
+  offset?: number;
+}
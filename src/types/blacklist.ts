@@ -0,0 +1,12 @@
+/**
+ * - `discord_id`: discord account of the customer
+ * - `purchaser_uuid`: game account used on checkout
+ * - `email`: email address used on checkout
+ */
+export type BlacklistType = 'discord_id' | 'purchaser_uuid' | 'email';
+
+export interface BlacklistIdentity {
+  discordId?: string | null;
+  purchaserUuid?: string | null;
+  email?: string | null;
+}
@@ -4,5 +4,10 @@ export * from './command_handler';
 export * from './static_messages';
 export * from './tebex_api';
 export * from './transaction_logging';
+export * from './tebex_webhooks';
+export * from './purchases';
 export * from './database';
 export * from './tickets';
+export * from './blacklist';
+export * from './audit';
+export * from './privacy';
@@ -0,0 +1,12 @@
+export interface ErasureSummary {
+  /** Transactions detached from the user, kept anonymized for refunds */
+  transactions: number;
+  developers: number;
+  tickets: number;
+  ticketMessages: number;
+  transfers: number;
+  claimAttempts: number;
+  auditEntries: number;
+  /** Blacklist entries are kept to prevent chargeback fraud */
+  blacklistKept: number;
+}
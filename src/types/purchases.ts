@@ -0,0 +1,64 @@
+export interface CustomerPackage {
+  package: string;
+  packageId: number | null;
+}
+
+export interface ActivePackage extends CustomerPackage {
+  quantity: number;
+}
+
+export interface PackageRoleMapping extends CustomerPackage {
+  roleId: string;
+}
+
+export interface PurchaseState {
+  refund: number;
+  chargeback: number;
+  expiresAt: Date | null;
+  transactionPackages: { refund: number; chargeback: number }[];
+}
+
+/**
+ * - `pending`: waiting for the invited member to answer
+ * - `accepted` / `declined`: answered by the invited member
+ * - `cancelled`: withdrawn by the customer, or the customer lost their access
+ * - `expired`: not answered in time
+ */
+export type DeveloperInviteStatus = 'pending' | 'accepted' | 'declined' | 'cancelled' | 'expired';
+
+/**
+ * - `pending`: waiting for a staff review
+ * - `approved`: the purchase was moved to the new account
+ * - `denied`: refused by staff
+ * - `cancelled`: the purchase changed hands or was revoked before the review
+ * - `reverted`: the purchase was moved back to the previous owner by staff
+ */
+export type TransferStatus = 'pending' | 'approved' | 'denied' | 'cancelled' | 'reverted';
+
+/**
+ * - `claimed`: the purchase was linked, or was already linked to the user
+ * - `invalid`: unknown to tebex
+ * - `refused`: refunded, chargebacked, expired or blacklisted
+ * - `conflict`: already claimed by another customer
+ * - `rate_limited`: refused before being checked
+ * - `error`: tebex or the database failed
+ */
+export type ClaimAttemptOutcome = 'claimed' | 'invalid' | 'refused' | 'conflict' | 'rate_limited' | 'error';
+
+/**
+ * - `all`: every transaction
+ * - `active`: still granting access, not refunded, chargebacked or expired
+ * - `refunded`: refunded or chargebacked, fully or partially
+ */
+export type PurchaseStatusFilter = 'all' | 'active' | 'refunded';
+
+export interface PurchaseSearchFilters {
+  discordId?: string;
+  /** Partial transaction id */
+  tbxId?: string;
+  /** Partial purchaser name */
+  purchaserName?: string;
+  /** Partial package name */
+  packageName?: string;
+  status: PurchaseStatusFilter;
+}
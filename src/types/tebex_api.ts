@@ -17,11 +17,16 @@ export interface TebexPackage {
   name: string;
 }
 
+export interface TebexGateway {
+  id: number;
+  name: string;
+}
+
 export interface TebexPayment {
   id: number;
   amount: string;
   date: string;
-  gateway: object;
+  gateway: TebexGateway;
   status: TebexTransactionStatus;
   currency: TebexCurrency;
   email: string;
@@ -32,7 +37,23 @@ export interface TebexPayment {
   creator_code: string | null;
 }
 
+/**
+ * - `not_found`: the transaction does not exist on the store
+ * - `transient`: network error, rate limit or Tebex outage, the same lookup may succeed later
+ * - `auth`: the Tebex secret was rejected
+ * - `unknown`: any other API error
+ */
+export type TebexAPIErrorType = 'not_found' | 'transient' | 'auth' | 'unknown';
+
 export interface TebexAPIError {
   success: false;
   error: string;
+  type: TebexAPIErrorType;
+  status?: number;
+}
+
+export interface TebexCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
 }
@@ -0,0 +1,68 @@
+export type TebexWebhookType =
+  | 'validation.webhook'
+  | 'payment.completed'
+  | 'payment.declined'
+  | 'payment.refunded'
+  | 'payment.dispute.opened'
+  | 'payment.dispute.won'
+  | 'payment.dispute.lost'
+  | 'payment.dispute.closed'
+  | 'recurring-payment.started'
+  | 'recurring-payment.renewed'
+  | 'recurring-payment.ended'
+  | 'recurring-payment.status-changed';
+
+export interface TebexWebhookPrice {
+  amount: number;
+  currency: string;
+}
+
+export interface TebexWebhookUsername {
+  id: string;
+  username: string;
+}
+
+export interface TebexWebhookCustomer {
+  first_name: string;
+  last_name: string;
+  email: string;
+  ip: string;
+  username: TebexWebhookUsername;
+  marketing_consent: boolean;
+  country: string;
+  postal_code: string | null;
+}
+
+export interface TebexWebhookProduct {
+  id: number;
+  name: string;
+  quantity: number;
+  base_price: TebexWebhookPrice;
+  paid_price: TebexWebhookPrice;
+  variables: { identifier: string; option: string }[];
+  expires_at: string | null;
+  custom: string | null;
+  username: TebexWebhookUsername;
+}
+
+export interface TebexWebhookPaymentSubject {
+  transaction_id: string;
+  status: { id: number; description: string };
+  payment_sequence: 'oneoff' | 'first' | 'renewal';
+  created_at: string;
+  price: TebexWebhookPrice;
+  price_paid: TebexWebhookPrice;
+  payment_method: { name: string; refundable: boolean };
+  customer: TebexWebhookCustomer;
+  products: TebexWebhookProduct[];
+  creator_code: string | null;
+  recurring_payment_reference: string | null;
+  decline_reason: { code: string; message: string } | null;
+}
+
+export interface TebexWebhook<T = unknown> {
+  id: string;
+  type: TebexWebhookType;
+  date: string;
+  subject: T;
+}
@@ -34,3 +34,10 @@ export interface DatabaseTicket {
   opened_at: string;
   closed_at: string | null;
 }
+
+export interface TicketAttachment {
+  name: string;
+  url: string;
+  contentType: string | null;
+  size: number;
+}
@@ -20,9 +20,42 @@ export interface TebexRefundChargebackPayload {
   packageName: string;
 }
 
-export interface TebexPurchasePayload extends Omit<RawTebexWebhookPayload, 'discordId'> {
+export interface TebexPurchasePayload extends Omit<RawTebexWebhookPayload, 'action' | 'discordId'> {
+  action: "purchase";
   timestamp: number;
   discordId: string | null;
 }
 
 export type TebexWebhookJsonPayload = TebexRefundChargebackPayload | TebexPurchasePayload;
+
+/**
+ * - `invalid_json`: the message isn't a JSON object
+ * - `unknown_action`: `action` is missing or isn't handled by the bot
+ * - `missing_field`: a required field is missing or empty
+ * - `invalid_field`: a field has the wrong type or format
+ * - `unfilled_template`: a field still holds a tebex placeholder, i.e. `{discordId}`
+ */
+export type TebexPayloadIssueType = 'invalid_json' | 'unknown_action' | 'missing_field' | 'invalid_field' | 'unfilled_template';
+
+export interface TebexPayloadIssue {
+  type: TebexPayloadIssueType;
+  field: string | null;
+  message: string;
+}
+
+export type TebexPayloadParseResult =
+  | { success: true; data: TebexWebhookJsonPayload }
+  | { success: false; issues: TebexPayloadIssue[] };
+
+/**
+ * - `accepted`: the notification was handled
+ * - `ignored`: the notification is valid but nothing had to be done
+ * - `rejected`: the notification's payload is malformed
+ * - `failed`: handling the notification threw, it is retried on the next catch-up
+ */
+export type NotificationOutcomeStatus = 'accepted' | 'ignored' | 'rejected' | 'failed';
+
+export interface NotificationOutcome {
+  status: NotificationOutcomeStatus;
+  reason: string | null;
+}
@@ -20,12 +20,36 @@ const fields = {
 
   // Tebex secret
   TEBEX_SECRET: process.env.TEBEX_SECRET,
+  TEBEX_API_BASE_URL: process.env.TEBEX_API_BASE_URL,
+
+  // Tebex webhooks receiver
+  TEBEX_WEBHOOK_SECRET: process.env.TEBEX_WEBHOOK_SECRET,
+  TEBEX_WEBHOOK_PORT: Number(process.env.TEBEX_WEBHOOK_PORT) || undefined,
+  TEBEX_WEBHOOK_PATH: process.env.TEBEX_WEBHOOK_PATH,
+
+  // Tebex payment cache (seconds)
+  TEBEX_CACHE_TTL: Number(process.env.TEBEX_CACHE_TTL ?? 300),
+  TEBEX_CACHE_NEGATIVE_TTL: Number(process.env.TEBEX_CACHE_NEGATIVE_TTL ?? 30),
+
+  // Tebex API resilience
+  TEBEX_MAX_RETRIES: Number(process.env.TEBEX_MAX_RETRIES ?? 3),
+  TEBEX_CIRCUIT_THRESHOLD: Number(process.env.TEBEX_CIRCUIT_THRESHOLD) || 5,
+  TEBEX_CIRCUIT_COOLDOWN: Number(process.env.TEBEX_CIRCUIT_COOLDOWN) || 60,
 };
 
 interface Config extends DBConnectionDetails {
   DISCORD_BOT_TOKEN: string;
   MAIN_GUILD_ID: string;
   TEBEX_SECRET: string | false
+  TEBEX_API_BASE_URL: string;
+  TEBEX_WEBHOOK_SECRET: string | false;
+  TEBEX_WEBHOOK_PORT?: number;
+  TEBEX_WEBHOOK_PATH: string;
+  TEBEX_CACHE_TTL: number;
+  TEBEX_CACHE_NEGATIVE_TTL: number;
+  TEBEX_MAX_RETRIES: number;
+  TEBEX_CIRCUIT_THRESHOLD: number;
+  TEBEX_CIRCUIT_COOLDOWN: number;
 };
 
 if (!fields.DISCORD_BOT_TOKEN) {
@@ -46,6 +70,15 @@ const env: Config = {
   SQL_DATABASE: fields.SQL_DATABASE,
   SQL_PASSWORD: fields.SQL_PASSWORD,
   TEBEX_SECRET: fields.TEBEX_SECRET ?? false,
+  TEBEX_API_BASE_URL: (fields.TEBEX_API_BASE_URL || 'https://plugin.tebex.io').replace(/\/+$/, ''),
+  TEBEX_WEBHOOK_SECRET: fields.TEBEX_WEBHOOK_SECRET || false,
+  TEBEX_WEBHOOK_PORT: fields.TEBEX_WEBHOOK_PORT,
+  TEBEX_WEBHOOK_PATH: fields.TEBEX_WEBHOOK_PATH || '/tebex/webhook',
+  TEBEX_CACHE_TTL: isNaN(fields.TEBEX_CACHE_TTL) ? 300 : fields.TEBEX_CACHE_TTL,
+  TEBEX_CACHE_NEGATIVE_TTL: isNaN(fields.TEBEX_CACHE_NEGATIVE_TTL) ? 30 : fields.TEBEX_CACHE_NEGATIVE_TTL,
+  TEBEX_MAX_RETRIES: isNaN(fields.TEBEX_MAX_RETRIES) ? 3 : Math.max(0, fields.TEBEX_MAX_RETRIES),
+  TEBEX_CIRCUIT_THRESHOLD: fields.TEBEX_CIRCUIT_THRESHOLD,
+  TEBEX_CIRCUIT_COOLDOWN: fields.TEBEX_CIRCUIT_COOLDOWN,
 }
 
 export default env;
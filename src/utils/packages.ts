@@ -0,0 +1,52 @@
+import { AutocompleteInteraction } from "discord.js";
+import { prisma } from "./prisma";
+
+type ConfiguredPackagesLookup = (search: string) => Promise<{ package: string }[]>;
+
+/**
+ * Looks up the tebex id of a package from the purchases it appears in.
+ *
+ * @param packageName package name, as displayed on tebex
+ * @returns package id, null if it was never purchased or predates package ids
+ */
+export async function GetKnownPackageId(packageName: string): Promise<number | null> {
+  const knownPackage = await prisma.transactionPackages.findFirst({
+    where: {
+      package: packageName,
+      packageId: { not: null },
+    },
+    select: {
+      packageId: true,
+    },
+  });
+
+  return knownPackage?.packageId ?? null;
+}
+
+/**
+ * Autocompletes a `package` option, with the already configured packages first and then the purchased ones.
+ *
+ * @param interaction autocomplete interaction
+ * @param getConfigured packages configured by the command, matching the search
+ */
+export async function RespondPackageAutocomplete(interaction: AutocompleteInteraction, getConfigured?: ConfiguredPackagesLookup) {
+  const focusedOption = interaction.options.getFocused(true);
+
+  if (focusedOption.name !== 'package') return;
+
+  const [purchased, configured] = await Promise.all([
+    prisma.transactionPackages.findMany({
+      where: { package: { contains: focusedOption.value } },
+      select: { package: true },
+      distinct: ['package'],
+      take: 25,
+    }),
+    getConfigured ? getConfigured(focusedOption.value) : [],
+  ]);
+
+  const packages = [...new Set([...configured, ...purchased].map(({ package: packageName }) => packageName))].slice(0, 25);
+
+  await interaction.respond(
+    packages.map((packageName) => ({ name: packageName, value: packageName }))
+  );
+}
@@ -0,0 +1,29 @@
+import { EmbedBuilder, TextChannel } from "discord.js";
+import { DiscordClient } from "@types";
+import Logger from "./logger";
+import SettingsManager from "../handlers/settings_handler";
+
+const logger = new Logger('Staff Log');
+
+/**
+ * Posts an embed in the `staff_log_channel`, nothing is posted when it isn't configured.
+ * Failures are logged, never thrown.
+ *
+ * @param client discord client
+ * @param embed embed to post, mentions in it don't ping anyone
+ * @param label what is posted, e.g. `claim alert`, used in the logged errors
+ */
+export async function PostStaffLog(client: DiscordClient, embed: EmbedBuilder, label: string): Promise<void> {
+  const channelId = SettingsManager.get<string>('staff_log_channel');
+  if (!channelId) return;
+
+  const channel = await client.channels.fetch(channelId).catch(() => null) as TextChannel | null;
+
+  if (!channel || !channel.isTextBased()) {
+    logger.error(`Unable to post ${label}, staff_log_channel (${channelId}) is invalid.`);
+    return;
+  }
+
+  await channel.send({ embeds: [embed], allowedMentions: { parse: [] } })
+    .catch((err) => logger.error(`Unable to post ${label}:`, (err as Error).message));
+}
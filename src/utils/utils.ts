@@ -3,9 +3,10 @@ const logger = new Logger('UTILS');
 
 export const tbxIdRegex = /tbx-[a-z0-9]{11,14}-[a-z0-9]{6}|[a-z0-9]{40}/g;
 
+export const dateRegex = /^\d{2}\/\d{2}\/\d{2}$/;
+export const timeRegex = /^\d{2}:\d{2}(:\d{2})?$/;
+
 export function GetUtcTimestamp(time: string, date: string, invoker?: string): number {
-  const dateRegex = /^\d{2}\/\d{2}\/\d{2}$/;
-  const timeRegex = /^\d{2}:\d{2}(:\d{2})?$/;
   const now = new Date();
 
   let year: number;
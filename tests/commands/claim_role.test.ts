@@ -0,0 +1,212 @@
+import { after, afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ChatInputCommandInteraction } from 'discord.js';
+
+import { startMockEnvironment, UNCACHED_SINGLE_LOOKUP } from '../mocks/environment';
+import { stubPrismaModels } from '../mocks/prisma';
+import type { TebexPayment } from '../../src/types';
+
+const tebexServer = await startMockEnvironment(UNCACHED_SINGLE_LOOKUP);
+
+const CUSTOMER_ROLE = '300000000000000000';
+const CUSTOMER_ID = 7;
+
+const USER = { id: '200000000000000001', username: 'buyer' };
+
+const db = {
+  settings: {
+    findMany: async () => [],
+  },
+  transactions: {
+    findUnique: async (): Promise<object | null> => null,
+    update: async () => ({}),
+  },
+  customers: {
+    findUnique: async () => ({ id: CUSTOMER_ID }),
+  },
+};
+
+// Stubbed before the handlers are imported, the settings are loaded on import
+const { prisma } = await import('../../src/utils/prisma');
+stubPrismaModels(prisma, db);
+
+const { default: claimRole } = await import('../../src/commands/customer_commands/claim_role');
+const { default: ClaimGuardManager } = await import('../../src/handlers/claim_guard_handler');
+const { default: PurchaseManager } = await import('../../src/handlers/purchase_handler');
+const { default: BlacklistManager } = await import('../../src/handlers/blacklist_handler');
+const { default: AuditLogManager } = await import('../../src/handlers/audit_handler');
+const { default: SettingsManager } = await import('../../src/handlers/settings_handler');
+const { default: Logger } = await import('../../src/utils/logger');
+
+/**
+ * Runs /claimrole with a transaction id, as the test user.
+ *
+ * @returns replies sent to the user and roles granted to them
+ */
+const runClaimRole = async (transactionId: string) => {
+  const replies: string[] = [];
+  const grantedRoles: string[] = [];
+
+  const interaction = {
+    user: USER,
+    member: {
+      roles: {
+        add: async (role: { id: string }) => { grantedRoles.push(role.id); },
+      },
+    },
+    guild: {
+      roles: {
+        fetch: async (id: string) => ({ id }),
+      },
+    },
+    options: {
+      getString: () => transactionId,
+    },
+    deferReply: async () => {},
+    editReply: async ({ content }: { content: string }) => { replies.push(content); },
+    reply: async ({ content }: { content: string }) => { replies.push(content); },
+  } as unknown as ChatInputCommandInteraction;
+
+  await claimRole['callback'](new Logger('test'), {} as never, interaction);
+
+  return { replies, grantedRoles };
+}
+
+describe('/claimrole', () => {
+  let outcomes: string[];
+  let audited: string[];
+
+  beforeEach(() => {
+    outcomes = [];
+    audited = [];
+
+    mock.method(SettingsManager, 'get', (name: string) => name === 'customer_role' ? CUSTOMER_ROLE : null);
+    mock.method(ClaimGuardManager, 'checkUserLimit', async () => null);
+    mock.method(ClaimGuardManager, 'checkGlobalLimit', async () => null);
+    mock.method(ClaimGuardManager, 'record', async (_user: unknown, _transactionId: string, outcome: string) => { outcomes.push(outcome); });
+    mock.method(BlacklistManager, 'check', async () => null);
+    mock.method(BlacklistManager, 'alertStaff', async () => {});
+    mock.method(AuditLogManager, 'record', async ({ action }: { action: string }) => { audited.push(action); });
+    mock.method(PurchaseManager, 'getCustomerId', async () => CUSTOMER_ID);
+    mock.method(PurchaseManager, 'applyAccessDuration', async () => null);
+    mock.method(PurchaseManager, 'grantPackageRoles', async () => []);
+    mock.method(PurchaseManager, 'savePayment', async (_transactionId: string, payment: TebexPayment, customerId?: number) => ({
+      customerId: customerId ?? null,
+      refund: payment.status === 'Refund' ? 1 : 0,
+      chargeback: payment.status === 'Chargeback' ? 1 : 0,
+      purchaserUuid: payment.player.uuid,
+      email: payment.email,
+      expiresAt: null,
+      erasedAt: null,
+    }));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    tebexServer.setMode('ok');
+    tebexServer.requests = [];
+  });
+
+  after(() => tebexServer.stop());
+
+  it('grants the customer role for a purchase verified on tebex', async () => {
+    const { replies, grantedRoles } = await runClaimRole('tbx-11111111111111-aaaaaa');
+
+    assert.deepEqual(tebexServer.requests, ['tbx-11111111111111-aaaaaa']);
+    assert.deepEqual(replies, ['Role claim accepted']);
+    assert.deepEqual(grantedRoles, [CUSTOMER_ROLE]);
+    assert.deepEqual(outcomes, ['claimed']);
+    assert.deepEqual(audited, ['claim']);
+  });
+
+  it('refuses refunded purchases', async () => {
+    const { replies, grantedRoles } = await runClaimRole('tbx-33333333333333-cccccc');
+
+    assert.match(replies[0], /a refund has been made/);
+    assert.deepEqual(grantedRoles, []);
+    assert.deepEqual(outcomes, ['refused']);
+  });
+
+  it('leaves refused purchases without an owner', async () => {
+    const getCustomerId = mock.method(PurchaseManager, 'getCustomerId', async () => CUSTOMER_ID);
+    const savePayment = mock.method(PurchaseManager, 'savePayment');
+    const linkTransaction = mock.method(db.transactions, 'update');
+
+    await runClaimRole('tbx-33333333333333-cccccc');
+
+    assert.equal(savePayment.mock.callCount(), 1);
+    assert.equal(savePayment.mock.calls[0].arguments[2], undefined);
+    assert.equal(getCustomerId.mock.callCount(), 0);
+    assert.equal(linkTransaction.mock.callCount(), 0);
+  });
+
+  it('links the purchase to the user once claimed', async () => {
+    const linkTransaction = mock.method(db.transactions, 'update');
+
+    await runClaimRole('tbx-11111111111111-aaaaaa');
+
+    assert.deepEqual(linkTransaction.mock.calls.map(({ arguments: [query] }) => query), [{
+      where: { tbxId: 'tbx-11111111111111-aaaaaa' },
+      data: { customerId: CUSTOMER_ID },
+    }]);
+  });
+
+  it('refuses chargebacked purchases', async () => {
+    const { replies, grantedRoles } = await runClaimRole('tbx-44444444444444-dddddd');
+
+    assert.match(replies[0], /a chargeback has been made/);
+    assert.deepEqual(grantedRoles, []);
+    assert.deepEqual(outcomes, ['refused']);
+  });
+
+  it('rejects transaction ids unknown to tebex', async () => {
+    const { replies, grantedRoles } = await runClaimRole('tbx-99999999999999-zzzzzz');
+
+    assert.deepEqual(replies, ['The provided transaction ID is invalid.']);
+    assert.deepEqual(grantedRoles, []);
+    assert.deepEqual(outcomes, ['invalid']);
+  });
+
+  it('asks to try again later when tebex is unavailable', async () => {
+    tebexServer.setMode('server_error');
+
+    const { replies, grantedRoles } = await runClaimRole('tbx-11111111111111-aaaaaa');
+
+    assert.deepEqual(replies, ['Tebex is currently unavailable, please try again later.']);
+    assert.deepEqual(grantedRoles, []);
+    assert.deepEqual(outcomes, ['error']);
+  });
+
+  it('refuses blacklisted users and alerts the staff', async () => {
+    const entry = { id: 1, type: 'discord_id', value: USER.id, reason: 'Chargeback', tbxId: null, addedBy: 'system', addedAt: new Date() };
+    mock.method(BlacklistManager, 'check', async () => entry);
+    const alertStaff = mock.method(BlacklistManager, 'alertStaff', async () => {});
+
+    const { replies, grantedRoles } = await runClaimRole('tbx-11111111111111-aaaaaa');
+
+    assert.deepEqual(replies, ['You are not allowed to claim purchases, please contact the server staff.']);
+    assert.deepEqual(grantedRoles, []);
+    assert.deepEqual(outcomes, ['refused']);
+    assert.equal(alertStaff.mock.callCount(), 1);
+  });
+
+  it('refuses purchases already claimed by another user, without asking tebex', async () => {
+    mock.method(db.transactions, 'findUnique', async () => ({
+      customerId: 9,
+      refund: 0,
+      chargeback: 0,
+      purchaserUuid: '110000100000001',
+      email: null,
+      expiresAt: null,
+      erasedAt: null,
+      customer: { discordId: '200000000000000009' },
+    }));
+
+    const { replies, grantedRoles } = await runClaimRole('tbx-11111111111111-aaaaaa');
+
+    assert.deepEqual(tebexServer.requests, []);
+    assert.match(replies[0], /has already been claimed/);
+    assert.deepEqual(grantedRoles, []);
+    assert.deepEqual(outcomes, ['conflict']);
+  });
+});
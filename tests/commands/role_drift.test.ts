@@ -0,0 +1,49 @@
+import { after, afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ChatInputCommandInteraction } from 'discord.js';
+
+import { startMockEnvironment, UNCACHED_SINGLE_LOOKUP } from '../mocks/environment';
+import { stubPrismaModels } from '../mocks/prisma';
+
+const tebexServer = await startMockEnvironment(UNCACHED_SINGLE_LOOKUP);
+
+const db = {
+  settings: {
+    findMany: async () => [],
+  },
+};
+
+// Stubbed before the handlers are imported, the settings are loaded on import
+const { prisma } = await import('../../src/utils/prisma');
+stubPrismaModels(prisma, db);
+
+const { default: roleDrift } = await import('../../src/commands/admin_commands/role_drift');
+const { default: RoleDriftManager } = await import('../../src/handlers/role_drift_handler');
+const { default: Logger } = await import('../../src/utils/logger');
+
+describe('/role-drift', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  after(() => tebexServer.stop());
+
+  it('replies with an error when the members cannot be fetched', async () => {
+    mock.method(RoleDriftManager, 'run', async () => { throw new Error('Members didn\'t arrive in time.'); });
+
+    const replies: string[] = [];
+
+    const interaction = {
+      user: { id: '200000000000000001', username: 'admin' },
+      options: {
+        getSubcommand: () => 'check',
+      },
+      deferReply: async () => {},
+      editReply: async ({ content }: { content: string }) => { replies.push(content); },
+    } as unknown as ChatInputCommandInteraction;
+
+    await roleDrift['callback'](new Logger('test'), {} as never, interaction);
+
+    assert.deepEqual(replies, ['Unable to check role drift (Members didn\'t arrive in time.).']);
+  });
+});
@@ -0,0 +1,133 @@
+import { after, afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { startMockEnvironment, UNCACHED_SINGLE_LOOKUP } from '../mocks/environment';
+import { stubPrismaModels } from '../mocks/prisma';
+
+const tebexServer = await startMockEnvironment(UNCACHED_SINGLE_LOOKUP);
+
+const ERASED_ID = '200000000000000001';
+const OTHER_ID = '200000000000000002';
+const STAFF_ID = '200000000000000003';
+// Contains the erased id, must be left untouched
+const LONGER_ID = `${ERASED_ID}0`;
+
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+
+const matches = (row: Row, where: Where = {}): boolean => Object.entries(where).every(([field, condition]) => {
+  if (field === 'OR') return (condition as Where[]).some((alternative) => matches(row, alternative));
+  if (condition && typeof condition === 'object' && 'contains' in condition) {
+    return typeof row[field] === 'string' && (row[field] as string).includes(condition.contains as string);
+  }
+  return row[field] === condition;
+});
+
+/**
+ * In-memory table supporting the queries made by the erasure, `select` and `include` are ignored.
+ */
+const table = (rows: Row[]) => ({
+  rows,
+  count: async ({ where }: { where?: Where } = {}) => rows.filter((row) => matches(row, where)).length,
+  findUnique: async ({ where }: { where: Where }) => rows.find((row) => matches(row, where)) ?? null,
+  findMany: async ({ where }: { where?: Where } = {}) => rows.filter((row) => matches(row, where)).map((row) => ({ ...row })),
+  create: async ({ data }: { data: Row }) => {
+    rows.push({ id: rows.length + 1, ...data });
+    return data;
+  },
+  update: async ({ where, data }: { where: Where; data: Row }) => Object.assign(rows.find((row) => matches(row, where))!, data),
+  updateMany: async ({ where, data }: { where: Where; data: Row }) => {
+    const updated = rows.filter((row) => matches(row, where));
+    updated.forEach((row) => Object.assign(row, data));
+    return { count: updated.length };
+  },
+  delete: async ({ where }: { where: Where }) => rows.splice(rows.findIndex((row) => matches(row, where)), 1)[0],
+  deleteMany: async ({ where }: { where: Where }) => {
+    const kept = rows.filter((row) => !matches(row, where));
+    const count = rows.length - kept.length;
+    rows.splice(0, rows.length, ...kept);
+    return { count };
+  },
+});
+
+const seed = () => ({
+  settings: table([]),
+  customers: table([{ id: 7, discordId: ERASED_ID, customerDevelopers: [] }]),
+  customerDevelopers: table([]),
+  developerInvites: table([{ id: 1, customerId: 7, discordId: OTHER_ID, invitedBy: ERASED_ID }]),
+  transactions: table([{ id: 1, tbxId: 'tbx-11111111111111-aaaaaa', customerId: 7, purchaserName: 'buyer', email: 'buyer@example.com', erasedAt: null }]),
+  tickets: table([{ id: 1, userId: ERASED_ID, userUsername: 'buyer', userDisplayName: 'Buyer', closedAt: new Date() }]),
+  ticketMembers: table([]),
+  ticketMessages: table([{ id: 1, authorId: ERASED_ID, displayName: 'Buyer', messageId: '1', avatar: null, content: 'hello', originalContent: null, attachments: null }]),
+  purchaseTransfers: table([
+    { id: 1, tbxId: 'tbx-11111111111111-aaaaaa', fromDiscordId: ERASED_ID, toDiscordId: OTHER_ID, reviewedBy: STAFF_ID, revertedBy: null, reason: null },
+    { id: 2, tbxId: 'tbx-22222222222222-bbbbbb', fromDiscordId: OTHER_ID, toDiscordId: LONGER_ID, reviewedBy: ERASED_ID, revertedBy: STAFF_ID, reason: `Moved back from ${ERASED_ID}: sold to ${LONGER_ID}` },
+  ]),
+  claimAttempts: table([{ id: 1, discordId: ERASED_ID }]),
+  purchaseSearches: table([{ id: 1, staffId: STAFF_ID, discordId: ERASED_ID }]),
+  blacklist: table([{ id: 1, type: 'discord_id', value: ERASED_ID, reason: 'Chargeback' }]),
+  auditLog: table([
+    { id: 1, action: 'transfer', actorId: STAFF_ID, targetId: OTHER_ID, reason: `Transferred from ${ERASED_ID}, requested by the owner` },
+    { id: 2, action: 'developer_remove', actorId: 'system', targetId: OTHER_ID, reason: `Customer ${ERASED_ID} has no active purchases left` },
+    { id: 3, action: 'link', actorId: STAFF_ID, targetId: LONGER_ID, reason: `Previously linked to ${ERASED_ID}` },
+    { id: 4, action: 'claim', actorId: ERASED_ID, targetId: ERASED_ID, reason: 'Claimed with /claimrole' },
+  ]),
+});
+
+let db = seed();
+
+// Stubbed before the handlers are imported, the settings are loaded on import
+const { prisma } = await import('../../src/utils/prisma');
+stubPrismaModels(prisma, db);
+
+const { default: PrivacyManager, ERASED_USER } = await import('../../src/handlers/privacy_handler');
+const { default: PurchaseManager } = await import('../../src/handlers/purchase_handler');
+
+describe('Data erasure', () => {
+  beforeEach(() => {
+    db = seed();
+    stubPrismaModels(prisma, { ...db, $transaction: async (callback: (tx: typeof db) => unknown) => callback(db) });
+
+    mock.method(PurchaseManager, 'revokeCustomerRoles', async () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  after(() => tebexServer.stop());
+
+  it('leaves the erased discord id in no record but the blacklist', async () => {
+    const summary = await PrivacyManager.erase(ERASED_ID, STAFF_ID);
+
+    assert.equal(typeof summary, 'object');
+
+    const { blacklist, ...records } = db;
+    const remaining = Object.entries(records)
+      .flatMap(([name, { rows }]) => rows.map((row) => ({ name, row: JSON.stringify(row) })))
+      .filter(({ row }) => new RegExp(`(?<!\\d)${ERASED_ID}(?!\\d)`).test(row));
+
+    assert.deepEqual(remaining, []);
+    assert.equal(blacklist.rows.length, 1);
+  });
+
+  it('keeps the rest of the reasons and longer ids containing the erased one', async () => {
+    await PrivacyManager.erase(ERASED_ID, STAFF_ID);
+
+    assert.deepEqual(db.auditLog.rows.slice(0, 3).map(({ reason }) => reason), [
+      `Transferred from ${ERASED_USER}, requested by the owner`,
+      `Customer ${ERASED_USER} has no active purchases left`,
+      `Previously linked to ${ERASED_USER}`,
+    ]);
+    assert.equal(db.auditLog.rows[2].targetId, LONGER_ID);
+    assert.deepEqual(db.purchaseTransfers.rows[1], {
+      id: 2,
+      tbxId: 'tbx-22222222222222-bbbbbb',
+      fromDiscordId: OTHER_ID,
+      toDiscordId: LONGER_ID,
+      reviewedBy: ERASED_USER,
+      revertedBy: STAFF_ID,
+      reason: `Moved back from ${ERASED_USER}: sold to ${LONGER_ID}`,
+    });
+  });
+});
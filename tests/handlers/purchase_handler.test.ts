@@ -0,0 +1,90 @@
+import { after, afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { startMockEnvironment, UNCACHED_SINGLE_LOOKUP } from '../mocks/environment';
+import { stubPrismaModels } from '../mocks/prisma';
+
+const tebexServer = await startMockEnvironment(UNCACHED_SINGLE_LOOKUP);
+
+const CUSTOMER = { id: 7, discordId: '200000000000000001' };
+const DEVELOPER = { id: 1, customerId: CUSTOMER.id, discordId: '200000000000000002' };
+
+// Prisma calls in the order they were made
+let queries: string[] = [];
+
+const db = {
+  settings: {
+    findMany: async () => [],
+  },
+  customers: {
+    findUnique: async () => CUSTOMER,
+    delete: async () => { queries.push('customers.delete'); },
+  },
+  transactions: {
+    findMany: async (): Promise<object[]> => [],
+  },
+  packageRoles: {
+    findMany: async () => [],
+  },
+  customerDevelopers: {
+    findMany: async () => [DEVELOPER],
+    deleteMany: async () => { queries.push('customerDevelopers.deleteMany'); },
+  },
+  developerInvites: {
+    updateMany: async () => { queries.push('developerInvites.updateMany'); },
+  },
+};
+
+// Stubbed before the handlers are imported, the settings are loaded on import
+const { prisma } = await import('../../src/utils/prisma');
+stubPrismaModels(prisma, db);
+
+const { default: PurchaseManager } = await import('../../src/handlers/purchase_handler');
+const { default: AuditLogManager } = await import('../../src/handlers/audit_handler');
+
+describe('Customer purchase checks', () => {
+  let audited: string[];
+
+  beforeEach(() => {
+    queries = [];
+    audited = [];
+
+    mock.method(PurchaseManager, 'getActivePackages', async () => []);
+    mock.method(AuditLogManager, 'record', async ({ action }: { action: string }) => { audited.push(action); });
+
+    // Neither the customer nor their developer are on the server anymore
+    PurchaseManager.setDiscordClient({
+      once: () => {},
+      guilds: {
+        fetch: async () => ({
+          members: {
+            fetch: async () => { throw new Error('Unknown Member'); },
+          },
+        }),
+      },
+    } as never);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  after(() => tebexServer.stop());
+
+  it('removes the developers before deleting a customer without purchases', async () => {
+    assert.equal(await PurchaseManager.checkCustomerPurchases(CUSTOMER.id), false);
+
+    assert.deepEqual(queries, ['customerDevelopers.deleteMany', 'developerInvites.updateMany', 'customers.delete']);
+    assert.deepEqual(audited, ['developer_remove']);
+  });
+
+  it('keeps customers whose purchases are all revoked', async () => {
+    mock.method(db.transactions, 'findMany', async () => [
+      { id: 1, refund: 1, chargeback: 0, expiresAt: null, transactionPackages: [] },
+    ]);
+
+    assert.equal(await PurchaseManager.checkCustomerPurchases(CUSTOMER.id), false);
+
+    assert.deepEqual(queries, ['customerDevelopers.deleteMany', 'developerInvites.updateMany']);
+  });
+});
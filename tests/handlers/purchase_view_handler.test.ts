@@ -0,0 +1,103 @@
+import { after, afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ContainerBuilder } from 'discord.js';
+
+import { startMockEnvironment, UNCACHED_SINGLE_LOOKUP } from '../mocks/environment';
+import { stubPrismaModels } from '../mocks/prisma';
+
+const tebexServer = await startMockEnvironment(UNCACHED_SINGLE_LOOKUP);
+
+const STAFF_ID = '200000000000000003';
+
+const search = { id: 4, staffId: STAFF_ID, discordId: null, tbxId: null, purchaserName: null, packageName: 'Example', status: 'all' };
+
+const db = {
+  settings: {
+    findMany: async () => [],
+  },
+  purchaseSearches: {
+    findUnique: async () => search,
+    findFirst: async (_query: { where: object }): Promise<object | null> => null,
+    create: async () => ({ id: 5 }),
+  },
+  transactions: {
+    // Every match, the active ones, the refunded or chargebacked ones
+    count: async ({ where }: { where: object }) => {
+      const query = JSON.stringify(where);
+      if (query.includes('expiresAt')) return 1;
+      if (query.includes('"refund":1')) return 2;
+      return 3;
+    },
+    groupBy: async () => [
+      { currency: 'EUR', amount: '10.00', _count: { _all: 2 } },
+      { currency: 'USD', amount: '5.50', _count: { _all: 1 } },
+      { currency: 'USD', amount: null, _count: { _all: 1 } },
+    ],
+    findMany: async (_query: { take: number }) => [{
+      tbxId: 'tbx-11111111111111-aaaaaa',
+      refund: 0,
+      chargeback: 0,
+      createdAt: new Date(0),
+      paymentDate: null,
+      expiresAt: null,
+      purchaserName: 'buyer',
+      customer: null,
+      transactionPackages: [{ package: 'Example Script', quantity: 1, refund: 0, chargeback: 0 }],
+    }],
+  },
+};
+
+// Stubbed before the handlers are imported, the settings are loaded on import
+const { prisma } = await import('../../src/utils/prisma');
+stubPrismaModels(prisma, db);
+
+const { default: PurchaseViewManager } = await import('../../src/handlers/purchase_view_handler');
+
+const texts = (container: ContainerBuilder) => container.toJSON().components
+  .flatMap((component) => 'content' in component ? [component.content] : []);
+
+describe('Staff purchase searches', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  after(() => tebexServer.stop());
+
+  it('stores new searches', async () => {
+    const create = mock.method(db.purchaseSearches, 'create');
+
+    assert.equal(await PurchaseViewManager.saveSearch(STAFF_ID, { packageName: 'Other', status: 'all' }), 5);
+    assert.equal(create.mock.callCount(), 1);
+  });
+
+  it('reuses the search when a staff member repeats it', async () => {
+    const findFirst = mock.method(db.purchaseSearches, 'findFirst', async (_query: { where: object }) => ({ id: search.id }));
+    const create = mock.method(db.purchaseSearches, 'create');
+
+    assert.equal(await PurchaseViewManager.saveSearch(STAFF_ID, { packageName: 'Example', status: 'all' }), search.id);
+    assert.deepEqual(findFirst.mock.calls[0].arguments[0].where, {
+      staffId: STAFF_ID,
+      discordId: null,
+      tbxId: null,
+      purchaserName: null,
+      packageName: 'Example',
+      status: 'all',
+    });
+    assert.equal(create.mock.callCount(), 0);
+  });
+
+  it('summarizes every match without loading them', async () => {
+    const findMany = mock.method(db.transactions, 'findMany');
+
+    const [container] = (await PurchaseViewManager.buildStaffPage(search.id, 0))!;
+
+    assert.match(texts(container as ContainerBuilder)[1], /\*\*3\*\* transaction\(s\) - \*\*1\*\* active - \*\*2\*\* refunded or chargebacked\nSpent: 20\.00 EUR, 5\.50 USD$/);
+    assert.equal(findMany.mock.calls[0].arguments[0].take, 8);
+  });
+
+  it('returns null for searches that no longer exist', async () => {
+    mock.method(db.purchaseSearches, 'findUnique', async () => null);
+
+    assert.equal(await PurchaseViewManager.buildStaffPage(6, 0), null);
+  });
+});
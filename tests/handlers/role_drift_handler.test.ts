@@ -0,0 +1,107 @@
+import { after, afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { startMockEnvironment, UNCACHED_SINGLE_LOOKUP } from '../mocks/environment';
+import { stubPrismaModels } from '../mocks/prisma';
+
+const tebexServer = await startMockEnvironment(UNCACHED_SINGLE_LOOKUP);
+
+const CUSTOMER_ROLE = '300000000000000000';
+const DEVELOPER_ROLE = '300000000000000001';
+
+const CUSTOMER_ID = '200000000000000001';
+const BLACKLISTED_ID = '200000000000000002';
+const DEVELOPER_ID = '200000000000000003';
+
+const activePurchase = { refund: 0, chargeback: 0, expiresAt: null, transactionPackages: [] };
+
+const db = {
+  settings: {
+    findMany: async () => [],
+  },
+  blacklist: {
+    findMany: async () => [{ value: BLACKLISTED_ID }],
+  },
+  customers: {
+    findMany: async () => [
+      { discordId: CUSTOMER_ID, customerDevelopers: [{ discordId: BLACKLISTED_ID }], transactions: [activePurchase] },
+      { discordId: BLACKLISTED_ID, customerDevelopers: [{ discordId: DEVELOPER_ID }], transactions: [activePurchase] },
+    ],
+  },
+};
+
+// Stubbed before the handlers are imported, the settings are loaded on import
+const { prisma } = await import('../../src/utils/prisma');
+stubPrismaModels(prisma, db);
+
+const { default: RoleDriftManager } = await import('../../src/handlers/role_drift_handler');
+const { default: SettingsManager } = await import('../../src/handlers/settings_handler');
+
+const member = (id: string, roles: string[]) => ({
+  id,
+  user: { bot: false },
+  roles: { cache: new Set(roles) },
+});
+
+/**
+ * Discord client whose main guild has the given members.
+ */
+const mockClient = (members: ReturnType<typeof member>[]) => ({
+  guilds: {
+    fetch: async () => ({
+      roles: { cache: new Set([CUSTOMER_ROLE, DEVELOPER_ROLE]) },
+      members: {
+        fetch: async () => new Map(members.map((m) => [m.id, m])),
+      },
+    }),
+  },
+}) as never;
+
+describe('Role drift', () => {
+  beforeEach(() => {
+    mock.method(SettingsManager, 'get', (name: string) => ({
+      customer_role: CUSTOMER_ROLE,
+      customers_dev_role: DEVELOPER_ROLE,
+    } as Record<string, string>)[name] ?? null);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  after(() => tebexServer.stop());
+
+  it('reports missing roles for active customers and their developers', async () => {
+    const report = await RoleDriftManager.run(mockClient([member(CUSTOMER_ID, []), member(DEVELOPER_ID, [])]), false);
+
+    assert.deepEqual(report?.missingCustomerRole, [CUSTOMER_ID]);
+    assert.deepEqual(report?.missingDeveloperRole, [DEVELOPER_ID]);
+  });
+
+  it('never expects blacklisted members to hold a role', async () => {
+    const report = await RoleDriftManager.run(mockClient([
+      member(CUSTOMER_ID, [CUSTOMER_ROLE]),
+      member(BLACKLISTED_ID, [CUSTOMER_ROLE]),
+    ]), false);
+
+    assert.deepEqual(report?.missingCustomerRole, []);
+    assert.deepEqual(report?.missingDeveloperRole, []);
+    assert.deepEqual(report?.extraCustomerRole, [BLACKLISTED_ID]);
+  });
+
+  it('lets member fetch failures reach the caller and allows another run', async () => {
+    const client = {
+      guilds: {
+        fetch: async () => ({
+          roles: { cache: new Set([CUSTOMER_ROLE, DEVELOPER_ROLE]) },
+          members: {
+            fetch: async () => { throw new Error('Members didn\'t arrive in time.'); },
+          },
+        }),
+      },
+    } as never;
+
+    await assert.rejects(RoleDriftManager.run(client, false), /Members didn't arrive in time/);
+    assert.notEqual(await RoleDriftManager.run(mockClient([]), false), null);
+  });
+});
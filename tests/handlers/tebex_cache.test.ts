@@ -0,0 +1,96 @@
+import { after, afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { startMockEnvironment } from '../mocks/environment';
+import { loadPaymentFixtures } from '../mocks/tebex_server';
+import PaymentCache from '../../src/handlers/tebex_handler/payment_cache';
+
+const tebexServer = await startMockEnvironment({
+  TEBEX_CACHE_TTL: '300',
+  TEBEX_CACHE_NEGATIVE_TTL: '30',
+  TEBEX_MAX_RETRIES: '0',
+});
+
+const { default: tebexHandler } = await import('../../src/handlers/tebex_handler');
+
+const payments = loadPaymentFixtures();
+
+describe('Tebex payment cache', () => {
+  afterEach(() => {
+    mock.timers.reset();
+    tebexHandler.clearCache();
+    tebexServer.setMode('ok');
+    tebexServer.requests = [];
+  });
+
+  after(() => tebexServer.stop());
+
+  it('serves repeated lookups from the cache', async () => {
+    const before = tebexHandler.getCacheStats();
+
+    await tebexHandler.verifyPurchase('tbx-11111111111111-aaaaaa');
+    const cached = await tebexHandler.verifyPurchase('tbx-11111111111111-aaaaaa');
+
+    assert.deepEqual(cached.success && cached.data, payments['tbx-11111111111111-aaaaaa']);
+    assert.equal(tebexServer.requests.length, 1);
+    assert.deepEqual(tebexHandler.getCacheStats(), { hits: before.hits + 1, misses: before.misses + 1, entries: 1 });
+  });
+
+  it('caches unknown transactions', async () => {
+    await tebexHandler.verifyPurchase('tbx-99999999999999-zzzzzz');
+    const cached = await tebexHandler.verifyPurchase('tbx-99999999999999-zzzzzz');
+
+    assert.equal(!cached.success && cached.type, 'not_found');
+    assert.equal(tebexServer.requests.length, 1);
+  });
+
+  it('never caches transient errors', async () => {
+    tebexServer.setMode('server_error');
+    await tebexHandler.verifyPurchase('tbx-11111111111111-aaaaaa');
+
+    tebexServer.setMode('ok');
+    const result = await tebexHandler.verifyPurchase('tbx-11111111111111-aaaaaa');
+
+    assert.equal(result.success, true);
+    assert.equal(tebexServer.requests.length, 2);
+  });
+
+  it('looks the transaction up again once invalidated', async () => {
+    await tebexHandler.verifyPurchase('tbx-11111111111111-aaaaaa');
+
+    assert.equal(tebexHandler.invalidatePurchase('tbx-11111111111111-aaaaaa'), true);
+
+    await tebexHandler.verifyPurchase('tbx-11111111111111-aaaaaa');
+
+    assert.equal(tebexServer.requests.length, 2);
+  });
+
+  it('expires lookups after their TTL', () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+
+    const cache = new PaymentCache(300, 30);
+    const found = { success: true as const, data: payments['tbx-11111111111111-aaaaaa'] };
+    const notFound = { success: false as const, error: 'Not found', type: 'not_found' as const, status: 404 };
+
+    cache.set('found', found);
+    cache.set('not-found', notFound);
+
+    mock.timers.tick(30_000);
+
+    assert.deepEqual(cache.get('found'), found);
+    assert.equal(cache.get('not-found'), null);
+
+    mock.timers.tick(270_000);
+
+    assert.equal(cache.get('found'), null);
+  });
+
+  it('caches nothing with a TTL of 0', () => {
+    const cache = new PaymentCache(0, 0);
+
+    cache.set('found', { success: true, data: payments['tbx-11111111111111-aaaaaa'] });
+
+    assert.equal(cache.get('found'), null);
+    assert.equal(cache.stats().entries, 0);
+  });
+});
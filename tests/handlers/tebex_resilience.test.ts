@@ -0,0 +1,153 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import MockTebexServer, { MOCK_TEBEX_SECRET } from '../mocks/tebex_server';
+import verify_purchase from '../../src/handlers/tebex_handler/verify_purchase';
+import CircuitBreaker from '../../src/handlers/tebex_handler/circuit_breaker';
+import Logger from '../../src/utils/logger';
+
+const logger = new Logger('test');
+const tebexServer = new MockTebexServer();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+let url: string;
+
+const lookup = (breaker: CircuitBreaker, maxRetries: number, transactionId = 'tbx-11111111111111-aaaaaa') => (
+  verify_purchase(logger, url, MOCK_TEBEX_SECRET, transactionId, breaker, maxRetries)
+);
+
+describe('Tebex lookup retries', () => {
+  before(async () => {
+    url = await tebexServer.start();
+  });
+
+  afterEach(() => {
+    tebexServer.setMode('ok');
+    tebexServer.retryAfter = '0';
+    tebexServer.requests = [];
+  });
+
+  after(() => tebexServer.stop());
+
+  it('retries server errors up to the retry limit', async () => {
+    tebexServer.setMode('server_error');
+
+    const result = await lookup(new CircuitBreaker(100, 60), 1);
+
+    assert.equal(!result.success && result.type, 'transient');
+    assert.equal(tebexServer.requests.length, 2);
+  });
+
+  it('retries rate limited lookups after the Retry-After delay', async () => {
+    tebexServer.setMode('rate_limited');
+
+    const result = await lookup(new CircuitBreaker(100, 60), 2);
+
+    assert.equal(!result.success && result.status, 429);
+    assert.equal(tebexServer.requests.length, 3);
+  });
+
+  it('gives up when Retry-After is longer than the maximum delay', async () => {
+    tebexServer.setMode('rate_limited');
+    tebexServer.retryAfter = '60';
+
+    const result = await lookup(new CircuitBreaker(100, 60), 3);
+
+    assert.equal(!result.success && result.type, 'transient');
+    assert.equal(tebexServer.requests.length, 1);
+  });
+
+  it('does not retry definitive answers', async () => {
+    tebexServer.setMode('unauthorized');
+
+    const result = await lookup(new CircuitBreaker(100, 60), 3);
+
+    assert.equal(!result.success && result.type, 'auth');
+    assert.equal(tebexServer.requests.length, 1);
+  });
+});
+
+describe('Tebex circuit breaker', () => {
+  before(async () => {
+    url = await tebexServer.start();
+  });
+
+  afterEach(() => {
+    tebexServer.setMode('ok');
+    tebexServer.requests = [];
+  });
+
+  after(() => tebexServer.stop());
+
+  it('opens after consecutive failures and skips lookups while open', async () => {
+    const breaker = new CircuitBreaker(2, 60);
+    tebexServer.setMode('server_error');
+
+    await lookup(breaker, 0);
+    assert.equal(breaker.isOpen(), false);
+
+    await lookup(breaker, 0);
+    assert.equal(breaker.isOpen(), true);
+
+    tebexServer.setMode('ok');
+
+    const result = await lookup(breaker, 0);
+
+    assert.equal(!result.success && result.type, 'transient');
+    assert.equal(tebexServer.requests.length, 2);
+  });
+
+  it('lets a single probe through once the cooldown is over', async () => {
+    const breaker = new CircuitBreaker(1, 0.05);
+
+    breaker.recordFailure();
+    await sleep(60);
+
+    assert.equal(breaker.isOpen(), false);
+    assert.equal(breaker.isOpen(), true);
+  });
+
+  it('closes when the probe succeeds', async () => {
+    const breaker = new CircuitBreaker(1, 0.05);
+    tebexServer.setMode('server_error');
+
+    await lookup(breaker, 0);
+    await sleep(60);
+
+    tebexServer.setMode('ok');
+
+    assert.equal((await lookup(breaker, 0)).success, true);
+    assert.equal(breaker.isOpen(), false);
+  });
+
+  it('closes when the probe gets a definitive error', async () => {
+    const breaker = new CircuitBreaker(1, 0.05);
+    tebexServer.setMode('server_error');
+
+    await lookup(breaker, 0);
+    await sleep(60);
+
+    tebexServer.setMode('unauthorized');
+
+    const result = await lookup(breaker, 0);
+
+    assert.equal(!result.success && result.type, 'auth');
+    assert.equal(breaker.isOpen(), false);
+    assert.equal(breaker.remaining(), 0);
+  });
+
+  it('reopens straight away when the probe fails', async () => {
+    const breaker = new CircuitBreaker(3, 0.05);
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    await sleep(60);
+
+    tebexServer.setMode('server_error');
+    await lookup(breaker, 0);
+
+    assert.equal(breaker.isOpen(), true);
+  });
+});
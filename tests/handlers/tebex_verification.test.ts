@@ -0,0 +1,54 @@
+import { after, afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { startMockEnvironment, UNCACHED_SINGLE_LOOKUP } from '../mocks/environment';
+import { loadPaymentFixtures } from '../mocks/tebex_server';
+
+const tebexServer = await startMockEnvironment(UNCACHED_SINGLE_LOOKUP);
+const { default: tebexHandler } = await import('../../src/handlers/tebex_handler');
+
+const payments = loadPaymentFixtures();
+
+describe('Tebex purchase verification', () => {
+  afterEach(() => {
+    tebexServer.setMode('ok');
+    tebexServer.requests = [];
+  });
+
+  after(() => tebexServer.stop());
+
+  it('returns the payment of a known transaction', async () => {
+    const result = await tebexHandler.verifyPurchase('tbx-22222222222222-bbbbbb');
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.success && result.data, payments['tbx-22222222222222-bbbbbb']);
+    assert.deepEqual(tebexServer.requests, ['tbx-22222222222222-bbbbbb']);
+  });
+
+  it('reports unknown transactions as not found', async () => {
+    const result = await tebexHandler.verifyPurchase('tbx-99999999999999-zzzzzz');
+
+    assert.equal(result.success, false);
+    assert.equal(!result.success && result.type, 'not_found');
+    assert.equal(!result.success && result.status, 404);
+  });
+
+  it('reports a rejected secret as an authentication error', async () => {
+    tebexServer.setMode('unauthorized');
+
+    const result = await tebexHandler.verifyPurchase('tbx-11111111111111-aaaaaa');
+
+    assert.equal(result.success, false);
+    assert.equal(!result.success && result.type, 'auth');
+  });
+
+  it('reports server errors as transient, with the error returned by tebex', async () => {
+    tebexServer.setMode('server_error');
+
+    const result = await tebexHandler.verifyPurchase('tbx-11111111111111-aaaaaa');
+
+    assert.equal(result.success, false);
+    assert.equal(!result.success && result.type, 'transient');
+    assert.equal(!result.success && result.error, 'Internal server error');
+  });
+});
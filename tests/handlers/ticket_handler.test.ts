@@ -0,0 +1,142 @@
+import { after, afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ButtonInteraction, EmbedBuilder } from 'discord.js';
+
+import { startMockEnvironment, UNCACHED_SINGLE_LOOKUP } from '../mocks/environment';
+import { stubPrismaModels } from '../mocks/prisma';
+import type { TicketCategoryData } from '../../src/types';
+
+const tebexServer = await startMockEnvironment(UNCACHED_SINGLE_LOOKUP);
+
+const USER = { id: '200000000000000001', username: 'buyer', displayName: 'Buyer' };
+
+const db = {
+  settings: {
+    findMany: async () => [],
+  },
+  tickets: {
+    create: async () => ({ id: 1 }),
+  },
+};
+
+// Stubbed before the handlers are imported, the settings are loaded on import
+const { prisma } = await import('../../src/utils/prisma');
+stubPrismaModels(prisma, db);
+
+const { default: Ticket } = await import('../../src/handlers/ticket_handler');
+
+const category = (requireTbxId: boolean): TicketCategoryData => ({
+  id: 1,
+  name: 'Support',
+  description: null,
+  emoji: null,
+  categoryId: '400000000000000000',
+  requireTbxId: requireTbxId ? 1 : 0,
+  fields: [],
+});
+
+/**
+ * Opens a ticket in a category, submitting the modal with a transaction id.
+ *
+ * @returns replies sent to the user and the channels created for the ticket, with their messages
+ */
+const openTicket = async (transactionId: string | null) => {
+  const replies: string[] = [];
+  const channels: { id: string; name: string; sent: { embeds: EmbedBuilder[] }[] }[] = [];
+
+  const modalInteraction = {
+    fields: {
+      fields: new Map(transactionId ? [['tbxid', { value: transactionId }]] : []),
+    },
+    deferReply: async () => {},
+    editReply: async ({ content }: { content: string }) => { replies.push(content); },
+    reply: async ({ content }: { content: string }) => { replies.push(content); },
+  };
+
+  const guild = {
+    channels: {
+      create: async ({ name }: { name: string }) => {
+        const channel = {
+          id: `50000000000000000${channels.length}`,
+          name,
+          url: `https://discord.com/channels/guild/${name}`,
+          sent: [] as { embeds: EmbedBuilder[] }[],
+          send: async (message: { embeds: EmbedBuilder[] }) => { channel.sent.push(message); },
+        };
+        channels.push(channel);
+        return channel;
+      },
+    },
+  };
+
+  const client = {
+    guilds: { fetch: async () => guild },
+    channels: { fetch: async (id: string) => ({ id }) },
+  };
+
+  const interaction = {
+    user: USER,
+    showModal: async () => {},
+    awaitModalSubmit: async () => modalInteraction,
+    reply: async ({ content }: { content: string }) => { replies.push(content); },
+  } as unknown as ButtonInteraction;
+
+  await Ticket.createNewTicket(client as never, interaction, 1);
+
+  return { replies, channels };
+}
+
+describe('Ticket opening', () => {
+  beforeEach(() => {
+    mock.method(Ticket, 'getCategoryData', async () => category(true));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    tebexServer.setMode('ok');
+    tebexServer.requests = [];
+  });
+
+  after(() => tebexServer.stop());
+
+  it('opens the ticket with the purchase verified on tebex', async () => {
+    const { replies, channels } = await openTicket('tbx-22222222222222-bbbbbb');
+
+    assert.deepEqual(tebexServer.requests, ['tbx-22222222222222-bbbbbb']);
+    assert.equal(channels.length, 1);
+    assert.match(replies[0], /^Your ticket has been opened/);
+    assert.equal(Ticket.getTicket(channels[0].id)?.ticketId, 1);
+
+    const [field] = channels[0].sent[0].embeds[0].toJSON().fields ?? [];
+
+    assert.equal(field.name, 'Purchase Info');
+    assert.match(field.value, /Status: Complete/);
+    assert.match(field.value, /Packages: Example Script, Example Add-on/);
+  });
+
+  it('refuses transaction ids unknown to tebex', async () => {
+    const { replies, channels } = await openTicket('tbx-99999999999999-zzzzzz');
+
+    assert.deepEqual(replies, ['This ticket requires a **valid** transaction id for a purchase.']);
+    assert.equal(channels.length, 0);
+  });
+
+  it('asks to try again later when tebex is unavailable', async () => {
+    tebexServer.setMode('server_error');
+
+    const { replies, channels } = await openTicket('tbx-22222222222222-bbbbbb');
+
+    assert.match(replies[0], /^Tebex is currently unavailable/);
+    assert.equal(channels.length, 0);
+  });
+
+  it('does not ask tebex for categories without a transaction id', async () => {
+    mock.method(Ticket, 'getCategoryData', async () => category(false));
+
+    const { replies, channels } = await openTicket(null);
+
+    assert.deepEqual(tebexServer.requests, []);
+    assert.equal(channels.length, 1);
+    assert.match(replies[0], /^Your ticket has been opened/);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import validate_payload from '../../src/handlers/tebex_handler/validate_payload';
+
+const purchase = {
+  action: 'purchase',
+  transaction: 'tbx-11111111111111-aaaaaa',
+  packageName: 'Example Script',
+  username: 'buyer',
+  price: '24.99',
+  time: '14:32',
+  date: '01/10/25',
+  email: 'buyer@example.com',
+  purchaserName: 'buyer',
+  purchaserUuid: '110000100000001',
+  server: 'Example Server',
+  discordId: '200000000000000001',
+};
+
+const parse = (payload: object) => validate_payload(JSON.stringify(payload));
+
+const issueFields = (payload: object) => {
+  const result = parse(payload);
+  return result.success ? [] : result.issues.map(({ type, field }) => `${type}:${field}`);
+}
+
+describe('Tebex notification payloads', () => {
+  it('accepts a complete purchase', () => {
+    const result = parse(purchase);
+
+    assert.equal(result.success, true);
+    assert.equal(result.success && result.data.action, 'purchase');
+    assert.equal(result.success && result.data.action === 'purchase' && result.data.discordId, purchase.discordId);
+  });
+
+  it('accepts refunds and chargebacks with only the required fields', () => {
+    for (const action of ['refund', 'chargeback']) {
+      const result = parse({ action, transaction: purchase.transaction, packageName: purchase.packageName, username: 'buyer' });
+
+      assert.equal(result.success, true, action);
+    }
+  });
+
+  it('rejects messages that are not JSON objects', () => {
+    assert.deepEqual(issueFields(['purchase']), ['invalid_json:null']);
+
+    const result = validate_payload('not json');
+    assert.deepEqual(!result.success && result.issues.map(({ type }) => type), ['invalid_json']);
+  });
+
+  it('rejects unknown actions', () => {
+    assert.deepEqual(issueFields({ ...purchase, action: 'renewal' }), ['unknown_action:action']);
+  });
+
+  it('reports every missing or invalid field at once', () => {
+    assert.deepEqual(
+      issueFields({ ...purchase, transaction: 'tbx-123', packageName: '  ', username: 42, date: '2025-10-01' }),
+      ['missing_field:packageName', 'invalid_field:username', 'invalid_field:transaction', 'invalid_field:date'],
+    );
+  });
+
+  it('rejects unfilled placeholders', () => {
+    assert.deepEqual(issueFields({ ...purchase, username: '{username}' }), ['unfilled_template:username']);
+  });
+
+  it('reads an unfilled discord id placeholder as no discord id', () => {
+    const result = parse({ ...purchase, discordId: '{discordId}' });
+
+    assert.equal(result.success && result.data.action === 'purchase' && result.data.discordId, null);
+  });
+
+  it('rejects malformed discord ids and times', () => {
+    assert.deepEqual(issueFields({ ...purchase, discordId: 'buyer#0001', time: '2pm' }), ['invalid_field:discordId', 'invalid_field:time']);
+  });
+});
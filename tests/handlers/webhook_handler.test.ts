@@ -0,0 +1,165 @@
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { createHash, createHmac } from 'node:crypto';
+import { Prisma } from '@prisma/client';
+
+import { startMockEnvironment, UNCACHED_SINGLE_LOOKUP } from '../mocks/environment';
+import { stubPrismaModels } from '../mocks/prisma';
+
+const WEBHOOK_SECRET = 'mock-webhook-secret';
+const WEBHOOK_PORT = 30000 + (process.pid % 20000);
+
+const tebexServer = await startMockEnvironment({
+  ...UNCACHED_SINGLE_LOOKUP,
+  TEBEX_WEBHOOK_SECRET: WEBHOOK_SECRET,
+  TEBEX_WEBHOOK_PORT: `${WEBHOOK_PORT}`,
+  TEBEX_WEBHOOK_PATH: '/tebex/webhook',
+});
+
+// In-memory processed_webhooks table, with its unique webhook id
+const processedWebhooks = new Map<string, { status: string | null }>();
+
+const db = {
+  settings: {
+    findMany: async () => [],
+  },
+  processedWebhooks: {
+    create: async ({ data }: { data: { webhookId: string } }) => {
+      if (processedWebhooks.has(data.webhookId)) {
+        throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+      }
+
+      processedWebhooks.set(data.webhookId, { status: null });
+      return data;
+    },
+    updateMany: async ({ where, data }: { where: { webhookId: string; status: string }; data: { status: string | null } }) => {
+      const record = processedWebhooks.get(where.webhookId);
+      if (!record || record.status !== where.status) return { count: 0 };
+
+      record.status = data.status;
+      return { count: 1 };
+    },
+    update: async ({ where, data }: { where: { webhookId: string }; data: { status: string } }) => {
+      processedWebhooks.get(where.webhookId)!.status = data.status;
+      return {};
+    },
+  },
+};
+
+// Stubbed before the handlers are imported, the settings are loaded on import
+const { prisma } = await import('../../src/utils/prisma');
+stubPrismaModels(prisma, db);
+
+const { default: WebhookHandler } = await import('../../src/handlers/webhook_handler');
+const { default: verify_signature } = await import('../../src/handlers/webhook_handler/verify_signature');
+const { default: PurchaseManager } = await import('../../src/handlers/purchase_handler');
+
+const sign = (body: string, secret = WEBHOOK_SECRET) => createHmac('sha256', secret)
+  .update(createHash('sha256').update(body).digest('hex'))
+  .digest('hex');
+
+const refundWebhook = (id: string) => JSON.stringify({
+  id,
+  type: 'payment.refunded',
+  date: '2025-10-01T14:32:10+00:00',
+  subject: { transaction_id: 'tbx-11111111111111-aaaaaa' },
+});
+
+const deliver = (body: string, signature = sign(body)) => fetch(`http://127.0.0.1:${WEBHOOK_PORT}/tebex/webhook`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', 'X-Signature': signature },
+  body,
+});
+
+describe('Webhook signatures', () => {
+  it('accepts the signature computed with the webhook secret', () => {
+    const body = refundWebhook('sig-1');
+
+    assert.equal(verify_signature(Buffer.from(body), sign(body), WEBHOOK_SECRET), true);
+    assert.equal(verify_signature(Buffer.from(body), sign(body).toUpperCase(), WEBHOOK_SECRET), true);
+  });
+
+  it('rejects missing signatures, other secrets and tampered bodies', () => {
+    const body = refundWebhook('sig-2');
+
+    assert.equal(verify_signature(Buffer.from(body), undefined, WEBHOOK_SECRET), false);
+    assert.equal(verify_signature(Buffer.from(body), sign(body, 'other-secret'), WEBHOOK_SECRET), false);
+    assert.equal(verify_signature(Buffer.from(body.replace('refunded', 'completed')), sign(body), WEBHOOK_SECRET), false);
+    assert.equal(verify_signature(Buffer.from(body), 'abc', WEBHOOK_SECRET), false);
+  });
+});
+
+describe('Webhook receiver', () => {
+  let revoked: string[];
+
+  before(async () => {
+    WebhookHandler.start();
+
+    const server = WebhookHandler['server']!;
+    if (!server.listening) await once(server, 'listening');
+  });
+
+  beforeEach(() => {
+    revoked = [];
+    mock.method(PurchaseManager, 'revokeTransaction', async (transactionId: string) => {
+      revoked.push(transactionId);
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  after(async () => {
+    WebhookHandler.stop();
+    await tebexServer.stop();
+  });
+
+  it('rejects webhooks with an invalid signature', async () => {
+    const response = await deliver(refundWebhook('wh-1'), sign('other body'));
+
+    assert.equal(response.status, 403);
+    assert.deepEqual(revoked, []);
+  });
+
+  it('handles a signed webhook once, even when delivered again', async () => {
+    const first = await deliver(refundWebhook('wh-2'));
+    const second = await deliver(refundWebhook('wh-2'));
+
+    assert.equal(first.status, 200);
+    assert.equal(second.status, 200);
+    assert.deepEqual(revoked, ['tbx-11111111111111-aaaaaa']);
+    assert.equal(processedWebhooks.get('wh-2')?.status, 'handled');
+  });
+
+  it('handles concurrent deliveries once', async () => {
+    const responses = await Promise.all([deliver(refundWebhook('wh-3')), deliver(refundWebhook('wh-3'))]);
+
+    assert.deepEqual(responses.map(({ status }) => status), [200, 200]);
+    assert.deepEqual(revoked, ['tbx-11111111111111-aaaaaa']);
+  });
+
+  it('answers failed handlings with an error so they are delivered again', async () => {
+    mock.method(PurchaseManager, 'revokeTransaction', async () => {
+      throw new Error('Unknown Member');
+    });
+
+    const failed = await deliver(refundWebhook('wh-4'));
+
+    assert.equal(failed.status, 500);
+    assert.equal(processedWebhooks.get('wh-4')?.status, 'failed');
+
+    mock.method(PurchaseManager, 'revokeTransaction', async (transactionId: string) => {
+      revoked.push(transactionId);
+      return true;
+    });
+
+    const redelivered = await deliver(refundWebhook('wh-4'));
+
+    assert.equal(redelivered.status, 200);
+    assert.deepEqual(revoked, ['tbx-11111111111111-aaaaaa']);
+    assert.equal(processedWebhooks.get('wh-4')?.status, 'handled');
+  });
+});
@@ -0,0 +1,31 @@
+import MockTebexServer, { MOCK_TEBEX_SECRET } from './tebex_server';
+
+/**
+ * Starts a mock Tebex API and sets the environment the bot's config reads on import.
+ * Must be awaited before importing anything from `src`, e.g. with a dynamic `import()`.
+ *
+ * @param overrides - Extra environment variables, e.g. to tune the cache or the retries.
+ * @returns the running mock, stop it once the tests are done
+ */
+export const startMockEnvironment = async (overrides: Record<string, string> = {}): Promise<MockTebexServer> => {
+  const server = new MockTebexServer();
+
+  process.env.DISCORD_BOT_TOKEN = 'mock-discord-token';
+  process.env.MAIN_GUILD_ID = '100000000000000000';
+  process.env.TEBEX_SECRET = MOCK_TEBEX_SECRET;
+  process.env.TEBEX_API_BASE_URL = await server.start();
+
+  Object.assign(process.env, overrides);
+
+  return server;
+}
+
+/**
+ * Lookups reach the mock exactly once, for tests of the flows built on top of them.
+ * The cache, retries and circuit breaker have their own tests.
+ */
+export const UNCACHED_SINGLE_LOOKUP = {
+  TEBEX_MAX_RETRIES: '0',
+  TEBEX_CACHE_TTL: '0',
+  TEBEX_CACHE_NEGATIVE_TTL: '0',
+};
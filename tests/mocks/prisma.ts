@@ -0,0 +1,14 @@
+import type { PrismaClient } from '@prisma/client';
+
+/**
+ * Replaces prisma models with in-memory stand-ins, so the tests don't need a database.
+ * Only the methods used by the tested code have to be provided, wrap them with `mock.method` to change them per test.
+ *
+ * @param prisma - Client exported by `src/utils/prisma`.
+ * @param models - Stand-ins, keyed by model name (e.g. `transactions`).
+ */
+export const stubPrismaModels = (prisma: PrismaClient, models: Record<string, object>): void => {
+  for (const [name, model] of Object.entries(models)) {
+    Object.defineProperty(prisma, name, { value: model, configurable: true });
+  }
+}
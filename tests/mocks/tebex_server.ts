@@ -0,0 +1,132 @@
+import { readFileSync } from 'node:fs';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+import { TebexPayment } from '../../src/types';
+
+/**
+ * - `ok`: serve payments from the fixtures, 404 for unknown ids
+ * - `unauthorized`: answer every request with HTTP 401
+ * - `not_found`: answer every request with HTTP 404
+ * - `server_error`: answer every request with HTTP 500
+ * - `rate_limited`: answer every request with HTTP 429, and `retryAfter` as the `Retry-After` header
+ */
+export type MockTebexMode = 'ok' | 'unauthorized' | 'not_found' | 'server_error' | 'rate_limited';
+
+export const MOCK_TEBEX_SECRET = 'mock-tebex-secret';
+
+export const loadPaymentFixtures = (): Record<string, TebexPayment> => JSON.parse(
+  readFileSync(new URL('../fixtures/tebex_payments.json', import.meta.url), 'utf8')
+);
+
+const paymentRoute = /^\/payments\/([^/?]+)\/?(?:\?.*)?$/;
+
+/**
+ * In-process stand-in for the Tebex plugin API (`GET /payments/:id`).
+ * Point `TEBEX_API_BASE_URL` at the url returned by `start()` before importing the tebex handler.
+ */
+export default class MockTebexServer {
+  private server: Server | null = null;
+  private payments: Map<string, TebexPayment>;
+  private secret: string;
+  private mode: MockTebexMode = 'ok';
+
+  /** Transaction ids requested since the server started, in order. */
+  public requests: string[] = [];
+
+  /** `Retry-After` header sent in the `rate_limited` mode, in seconds. */
+  public retryAfter = '0';
+
+  constructor({ secret = MOCK_TEBEX_SECRET, payments = loadPaymentFixtures() }: { secret?: string; payments?: Record<string, TebexPayment> } = {}) {
+    this.secret = secret;
+    this.payments = new Map(Object.entries(payments));
+  }
+
+  /**
+   * @param port - Port to listen on, a random free port by default.
+   * @returns base url of the mock API
+   */
+  async start(port: number = 0): Promise<string> {
+    if (this.server) throw new Error('Mock Tebex server is already running.');
+
+    this.server = createServer((req, res) => this.handleRequest(req, res));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, '127.0.0.1', () => resolve());
+    });
+
+    return this.url();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+
+    const server = this.server;
+    this.server = null;
+
+    await new Promise<void>((resolve, reject) => {
+      server.close((err) => err ? reject(err) : resolve());
+    });
+  }
+
+  url(): string {
+    if (!this.server) throw new Error('Mock Tebex server is not running.');
+
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  setMode(mode: MockTebexMode): void {
+    this.mode = mode;
+  }
+
+  setPayment(transactionId: string, payment: TebexPayment): void {
+    this.payments.set(transactionId, payment);
+  }
+
+  removePayment(transactionId: string): void {
+    this.payments.delete(transactionId);
+  }
+
+  private handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    const match = req.method === 'GET' ? req.url?.match(paymentRoute) : null;
+
+    if (!match) {
+      this.send(res, 404, { error: 'Route not found' });
+      return;
+    }
+
+    const transactionId = decodeURIComponent(match[1]);
+    this.requests.push(transactionId);
+
+    if (this.mode === 'unauthorized' || req.headers['x-tebex-secret'] !== this.secret) {
+      this.send(res, 401, { error: 'Invalid server secret' });
+      return;
+    }
+
+    if (this.mode === 'rate_limited') {
+      this.send(res, 429, { error: 'Too many requests' }, { 'Retry-After': this.retryAfter });
+      return;
+    }
+
+    if (this.mode === 'server_error') {
+      this.send(res, 500, { error: 'Internal server error' });
+      return;
+    }
+
+    const payment = this.mode === 'ok' ? this.payments.get(transactionId) : undefined;
+
+    if (!payment) {
+      this.send(res, 404, { error: 'Payment not found' });
+      return;
+    }
+
+    this.send(res, 200, payment);
+  }
+
+  private send(res: ServerResponse, status: number, body: object, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  }
+}